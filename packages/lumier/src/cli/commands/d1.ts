@@ -0,0 +1,489 @@
+/**
+ * D1 Database Commands
+ *
+ * `lumier d1 migrate|status|create` for the migrations of D1 databases
+ * declared with a `migrations` directory, and `lumier d1 execute|shell` to
+ * query a database by its registry name. Commands target the local dev
+ * databases unless `--remote` is given, which uses the deployed stage.
+ */
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as readline from "node:readline";
+import type { ResourceRegistry } from "../../sdk/index.js";
+import { colors } from "../lib/constants.js";
+import {
+  applyMigrations,
+  createMigration,
+  createRemoteClient,
+  type D1Client,
+  type D1QueryResult,
+  listAppliedMigrations,
+  type Migration,
+  readMigrations,
+} from "../lib/d1.js";
+import { withLocalStores } from "../lib/local-stores.js";
+import { getPersistDir } from "../lib/persist.js";
+import { nameFromUrn } from "../lib/plan.js";
+import { importPulumiCommand, LumierError, log } from "../lib/utils.js";
+
+export interface D1CommandOptions {
+  stage: string;
+  rootDir: string;
+  lumierDir: string;
+  action?: string;
+  args: string[];
+  /** Limit to one database; defaults to every database with migrations */
+  database?: string;
+  /** Target the deployed stage instead of the local dev databases */
+  remote?: boolean;
+  /** Target the local dev databases (the default) */
+  local?: boolean;
+  /** SQL to run (execute) */
+  command?: string;
+  /** File of SQL to run (execute) */
+  file?: string;
+  /** Print rows as JSON (execute, shell) */
+  json?: boolean;
+  loadConfig: () => Promise<ResourceRegistry>;
+}
+
+interface MigratedDatabase {
+  name: string;
+  /** Migrations directory, relative to the project root */
+  directory: string;
+}
+
+const USAGE = `Usage:
+  lumier d1 migrate [--database <name>] [--remote]   Apply pending migrations
+  lumier d1 status [--database <name>] [--remote]    List applied and pending migrations
+  lumier d1 create <name> [--database <name>]        Create an empty migration
+  lumier d1 execute <database> --command <sql>       Run SQL (or --file <path>)
+  lumier d1 shell <database>                         Interactive SQL shell
+
+  --remote uses the database deployed to --stage, --local (default) the dev database
+  --json prints rows of execute and shell as JSON`;
+
+const SHELL_HELP = `  .tables          List tables
+  .schema [table]  Show CREATE statements
+  .json            Toggle JSON output
+  .exit            Quit (or Ctrl+D)`;
+
+/** Tables D1 and SQLite manage themselves */
+const INTERNAL_TABLES = "name NOT LIKE 'sqlite_%' AND name NOT LIKE '_cf_%'";
+
+const WHITESPACE_REGEX = /\s+/;
+
+const D1_DATABASE_TYPE = "cloudflare:index/d1Database:D1Database";
+
+// ============================================================================
+// Targets
+// ============================================================================
+
+function selectDatabases(config: ResourceRegistry, database: string | undefined): MigratedDatabase[] {
+  if (database) {
+    const entry = config.d1s.find((d1) => d1.name === database);
+    if (!entry) {
+      throw new LumierError(`D1 "${database}" is not registered`, "UNKNOWN_RESOURCE");
+    }
+    if (!entry.options?.migrations) {
+      throw new LumierError(
+        `D1 "${database}" has no migrations directory`,
+        "NO_MIGRATIONS",
+        `Set it in your config: D1("${database}", { migrations: "migrations" })`
+      );
+    }
+    return [{ name: entry.name, directory: entry.options.migrations }];
+  }
+
+  const databases = config.d1s.flatMap(({ name, options }) =>
+    options?.migrations ? [{ name, directory: options.migrations }] : []
+  );
+  if (databases.length === 0) {
+    throw new LumierError(
+      "No D1 database has a migrations directory",
+      "NO_MIGRATIONS",
+      'Set one in your config: D1("database", { migrations: "migrations" })'
+    );
+  }
+  return databases;
+}
+
+/**
+ * Look up the IDs of the deployed databases in the stage's state
+ */
+async function remoteClients(
+  config: ResourceRegistry,
+  options: D1CommandOptions,
+  names: string[]
+): Promise<Map<string, D1Client>> {
+  const { getCloudflareCredentials, selectStack } = await importPulumiCommand(() => import("../lib/pulumi.js"));
+  const credentials = getCloudflareCredentials();
+  const stack = await selectStack(config, { stage: options.stage, lumierDir: options.lumierDir });
+  const state = await stack.exportStack();
+
+  const ids = new Map<string, string>();
+  for (const resource of (state.deployment?.resources ?? []) as Array<{ urn: string; type: string; id?: string }>) {
+    if (resource.type === D1_DATABASE_TYPE && resource.id) {
+      ids.set(nameFromUrn(resource.urn), resource.id);
+    }
+  }
+
+  const clients = new Map<string, D1Client>();
+  for (const name of names) {
+    const id = ids.get(`d1-${name}`);
+    if (!id) {
+      throw new LumierError(`D1 "${name}" has not been deployed to stage "${options.stage}"`, "NOT_DEPLOYED");
+    }
+    clients.set(name, createRemoteClient(credentials.accountId, credentials.apiToken, id));
+  }
+  return clients;
+}
+
+async function readDatabaseMigrations(
+  databases: MigratedDatabase[],
+  rootDir: string
+): Promise<Array<{ name: string; migrations: Migration[] }>> {
+  return await Promise.all(
+    databases.map(async ({ name, directory }) => ({ name, migrations: await readMigrations(rootDir, directory) }))
+  );
+}
+
+function selectDatabase(config: ResourceRegistry, name: string | undefined): string {
+  if (!name) {
+    throw new LumierError("Missing database name", "INVALID_ARGS", USAGE);
+  }
+  if (!config.d1s.some((d1) => d1.name === name)) {
+    const registered = config.d1s.map((d1) => d1.name);
+    throw new LumierError(
+      `D1 "${name}" is not registered`,
+      "UNKNOWN_RESOURCE",
+      registered.length > 0 ? `Registered D1 databases: ${registered.join(", ")}` : undefined
+    );
+  }
+  return name;
+}
+
+async function withClients<T>(
+  config: ResourceRegistry,
+  options: D1CommandOptions,
+  names: string[],
+  fn: (clients: Map<string, D1Client>) => Promise<T>
+): Promise<T> {
+  if (options.remote && options.local) {
+    throw new LumierError("Use either --local or --remote", "INVALID_ARGS");
+  }
+  if (options.remote) {
+    return await fn(await remoteClients(config, options, names));
+  }
+  const persistDir = getPersistDir(options.lumierDir, options.stage);
+  return await withLocalStores(
+    config,
+    { stage: options.stage, persistDir, command: `d1 ${options.action}` },
+    async (stores) => {
+      const clients = new Map<string, D1Client>();
+      for (const name of names) clients.set(name, await stores.d1(name));
+      return await fn(clients);
+    }
+  );
+}
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+async function migrate(config: ResourceRegistry, options: D1CommandOptions): Promise<void> {
+  const databases = await readDatabaseMigrations(selectDatabases(config, options.database), options.rootDir);
+  const target = options.remote ? options.stage : "local";
+
+  await withClients(
+    config,
+    options,
+    databases.map((d) => d.name),
+    async (clients) => {
+      for (const { name, migrations } of databases) {
+        log("->  d1", `${name} (${target})`);
+
+        let applied: string[];
+        try {
+          applied = await applyMigrations(clients.get(name)!, migrations, (migration) => {
+            log(`+ ${name}`, migration.name);
+          });
+        } catch (error) {
+          throw new LumierError(
+            `D1 "${name}": ${error instanceof Error ? error.message : String(error)}`,
+            "MIGRATION_FAILED"
+          );
+        }
+
+        if (applied.length === 0) {
+          log(`~ ${name}`, "No pending migrations");
+        }
+      }
+    }
+  );
+}
+
+async function status(config: ResourceRegistry, options: D1CommandOptions): Promise<void> {
+  const databases = await readDatabaseMigrations(selectDatabases(config, options.database), options.rootDir);
+  const target = options.remote ? options.stage : "local";
+
+  await withClients(
+    config,
+    options,
+    databases.map((d) => d.name),
+    async (clients) => {
+      for (const { name: database, migrations } of databases) {
+        const applied = new Map(
+          (await listAppliedMigrations(clients.get(database)!)).map((m) => [m.name, m.appliedAt])
+        );
+        const width = Math.max(
+          0,
+          ...migrations.map((m) => m.name.length),
+          ...Array.from(applied.keys(), (n) => n.length)
+        );
+
+        console.log(`\n${colors.bold}${database}${colors.reset} ${colors.dim}(${target})${colors.reset}`);
+        for (const { name } of migrations) {
+          const appliedAt = applied.get(name);
+          console.log(
+            appliedAt
+              ? `  ${colors.green}✓${colors.reset} ${name.padEnd(width)}  ${colors.dim}${appliedAt}${colors.reset}`
+              : `  ${colors.yellow}•${colors.reset} ${name.padEnd(width)}  ${colors.yellow}pending${colors.reset}`
+          );
+        }
+
+        // Applied migrations whose file was renamed or deleted
+        const files = new Set(migrations.map((m) => m.name));
+        for (const [name, appliedAt] of applied) {
+          if (!files.has(name)) {
+            console.log(
+              `  ${colors.red}?${colors.reset} ${name.padEnd(width)}  ${colors.dim}${appliedAt}, file missing${colors.reset}`
+            );
+          }
+        }
+      }
+    }
+  );
+  console.log("");
+}
+
+async function create(config: ResourceRegistry, options: D1CommandOptions): Promise<void> {
+  const description = options.args[0];
+  if (!description) {
+    throw new LumierError("Missing migration name", "INVALID_ARGS", USAGE);
+  }
+
+  const databases = selectDatabases(config, options.database);
+  if (databases.length > 1) {
+    throw new LumierError(
+      `Several D1 databases have migrations: ${databases.map((d) => d.name).join(", ")}`,
+      "INVALID_ARGS",
+      "Choose one with --database <name>"
+    );
+  }
+
+  const filePath = await createMigration(options.rootDir, databases[0]!.directory, description);
+  log(`+ ${databases[0]!.name}`, path.relative(options.rootDir, filePath));
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "NULL";
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) return `<${value.byteLength} bytes>`;
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function formatTable(rows: Array<Record<string, unknown>>): string {
+  const columns = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+  const cells = rows.map((row) => columns.map((column) => formatValue(row[column])));
+  const widths = columns.map((column, i) => Math.max(column.length, ...cells.map((row) => row[i]!.length)));
+  const line = (values: string[]) => values.map((value, i) => value.padEnd(widths[i]!)).join(" │ ");
+
+  return [
+    `${colors.bold}${line(columns)}${colors.reset}`,
+    widths.map((width) => "─".repeat(width)).join("─┼─"),
+    ...cells.map(line),
+  ].join("\n");
+}
+
+function printResult(result: D1QueryResult, json: boolean): void {
+  if (json) {
+    console.log(JSON.stringify(result.rows, null, 2));
+  } else if (result.rows.length > 0) {
+    console.log(formatTable(result.rows));
+    console.log(`${colors.dim}${result.rows.length} ${result.rows.length === 1 ? "row" : "rows"}${colors.reset}`);
+  } else {
+    console.log(`${colors.dim}OK, ${result.changes} ${result.changes === 1 ? "row" : "rows"} changed${colors.reset}`);
+  }
+}
+
+async function runQuery(client: D1Client, name: string, sql: string): Promise<D1QueryResult> {
+  try {
+    return await client.query(sql);
+  } catch (error) {
+    throw new LumierError(`D1 "${name}": ${error instanceof Error ? error.message : String(error)}`, "QUERY_FAILED");
+  }
+}
+
+async function readSql(options: D1CommandOptions): Promise<string> {
+  if (options.command && options.file) {
+    throw new LumierError("Use either --command or --file", "INVALID_ARGS", USAGE);
+  }
+  if (options.command) return options.command;
+  if (options.file) {
+    try {
+      return await fs.readFile(path.resolve(options.rootDir, options.file), "utf-8");
+    } catch {
+      throw new LumierError(`Cannot read ${options.file}`, "FILE_NOT_FOUND");
+    }
+  }
+  throw new LumierError("Missing SQL: pass --command or --file", "INVALID_ARGS", USAGE);
+}
+
+async function execute(config: ResourceRegistry, options: D1CommandOptions): Promise<void> {
+  const name = selectDatabase(config, options.args[0] ?? options.database);
+  const sql = await readSql(options);
+
+  await withClients(config, options, [name], async (clients) => {
+    printResult(await runQuery(clients.get(name)!, name, sql), Boolean(options.json));
+  });
+}
+
+// ============================================================================
+// Shell
+// ============================================================================
+
+interface ShellState {
+  name: string;
+  client: D1Client;
+  json: boolean;
+  /** Statement typed so far; statements can span lines until a semicolon */
+  buffer: string;
+}
+
+/**
+ * Run a `.command`, resolving to false when the shell should exit
+ */
+async function runDotCommand(input: string, state: ShellState): Promise<boolean> {
+  const [command, argument] = input.split(WHITESPACE_REGEX);
+
+  switch (command) {
+    case ".exit":
+    case ".quit":
+      return false;
+    case ".help":
+      console.log(SHELL_HELP);
+      break;
+    case ".json":
+      state.json = !state.json;
+      console.log(`${colors.dim}JSON output ${state.json ? "on" : "off"}${colors.reset}`);
+      break;
+    case ".tables": {
+      const { rows } = await runQuery(
+        state.client,
+        state.name,
+        `SELECT name FROM sqlite_master WHERE type = 'table' AND ${INTERNAL_TABLES} ORDER BY name`
+      );
+      console.log(rows.map((row) => row.name).join("\n") || `${colors.dim}No tables${colors.reset}`);
+      break;
+    }
+    case ".schema": {
+      const filter = argument ? ` AND tbl_name = '${argument.replaceAll("'", "''")}'` : "";
+      const { rows } = await runQuery(
+        state.client,
+        state.name,
+        `SELECT sql FROM sqlite_master WHERE sql IS NOT NULL AND ${INTERNAL_TABLES}${filter} ORDER BY tbl_name, type DESC`
+      );
+      for (const row of rows) console.log(`${row.sql};`);
+      break;
+    }
+    default:
+      console.log(`Unknown command ${command}. Type .help for commands.`);
+  }
+  return true;
+}
+
+/**
+ * Handle one line of input, resolving to false when the shell should exit
+ */
+async function handleLine(line: string, state: ShellState): Promise<boolean> {
+  const trimmed = line.trim();
+
+  if (!state.buffer && trimmed.startsWith(".")) {
+    return await runDotCommand(trimmed, state);
+  }
+  if (!trimmed) return true;
+
+  state.buffer += `${line}\n`;
+  if (trimmed.endsWith(";")) {
+    const sql = state.buffer;
+    state.buffer = "";
+    try {
+      printResult(await runQuery(state.client, state.name, sql), state.json);
+    } catch (error) {
+      console.log(`${colors.red}${error instanceof Error ? error.message : String(error)}${colors.reset}`);
+    }
+  }
+  return true;
+}
+
+async function shell(config: ResourceRegistry, options: D1CommandOptions): Promise<void> {
+  const name = selectDatabase(config, options.args[0] ?? options.database);
+  const target = options.remote ? options.stage : "local";
+
+  await withClients(config, options, [name], async (clients) => {
+    const state: ShellState = { name, client: clients.get(name)!, json: Boolean(options.json), buffer: "" };
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    const prompt = () => {
+      rl.setPrompt(state.buffer ? "...> " : `${name}> `);
+      rl.prompt();
+    };
+
+    console.log(`Connected to ${colors.bold}${name}${colors.reset} ${colors.dim}(${target})${colors.reset}`);
+    console.log(`${colors.dim}End statements with ";". Type .help for commands.${colors.reset}\n`);
+
+    // Ctrl+C drops the statement being typed, or quits on an empty prompt
+    rl.on("SIGINT", () => {
+      if (!state.buffer) return rl.close();
+      state.buffer = "";
+      process.stdout.write("\n");
+      prompt();
+    });
+
+    prompt();
+    for await (const line of rl) {
+      if (!(await handleLine(line, state))) break;
+      prompt();
+    }
+    rl.close();
+  });
+}
+
+export async function d1(options: D1CommandOptions): Promise<void> {
+  const { action } = options;
+
+  switch (action) {
+    case "migrate":
+      await migrate(await options.loadConfig(), options);
+      break;
+    case "status":
+      await status(await options.loadConfig(), options);
+      break;
+    case "create":
+      await create(await options.loadConfig(), options);
+      break;
+    case "execute":
+      await execute(await options.loadConfig(), options);
+      break;
+    case "shell":
+      await shell(await options.loadConfig(), options);
+      break;
+    default:
+      throw new LumierError(action ? `Unknown d1 command: ${action}` : "Missing d1 command", "INVALID_ARGS", USAGE);
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Deploy to Cloudflare
+ *
+ * Builds every worker, then provisions the registry through an inline
+ * Pulumi program using the Automation API.
+ */
+
+import type { Stack } from "@pulumi/pulumi/automation/index.js";
+import type { ResourceRegistry } from "../../sdk/index.js";
+import { build } from "../lib/build.js";
+import { generateTypes } from "../lib/codegen.js";
+import { colors } from "../lib/constants.js";
+import { readAllMigrations } from "../lib/d1.js";
+import { type AppliedMigration, planDurableObjectMigrations, readAppliedMigrations } from "../lib/durable-objects.js";
+import { SECRET_OUTPUT, writeOutputs } from "../lib/outputs.js";
+import { createPlanCollector, declarationLocations, type Plan, printPlan } from "../lib/plan.js";
+import { createProgram, getCloudflareCredentials, selectStack } from "../lib/pulumi.js";
+import { assertSecretsAvailable, readSecrets } from "../lib/secrets.js";
+import { assertNoLateRegistrations, LumierError, log } from "../lib/utils.js";
+import { assertValidRegistry } from "../lib/validate.js";
+
+export interface DeployOptions {
+  stage: string;
+  rootDir: string;
+  lumierDir: string;
+  verbose?: boolean;
+  /** Registry the CLI loaded to check the stage's protection */
+  config: ResourceRegistry;
+}
+
+function formatOutput(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+type Action = "deploy" | "preview";
+
+/**
+ * Durable Object migrations applied by earlier deploys of the stage, by worker.
+ * A first deploy creates the stage; a preview needs one to compare against.
+ */
+async function readDeployedMigrations(
+  config: ResourceRegistry,
+  options: DeployOptions,
+  action: Action
+): Promise<Map<string, AppliedMigration[]>> {
+  const { stage, lumierDir } = options;
+  let stack: Stack;
+  try {
+    stack = await selectStack(config, { stage, lumierDir });
+  } catch (error) {
+    if (!(error instanceof LumierError && error.code === "NOT_DEPLOYED")) throw error;
+    if (action === "deploy") return new Map();
+    throw new LumierError(
+      `Stage "${stage}" has not been deployed, so there is nothing to preview`,
+      "NOT_DEPLOYED",
+      `Deploy the stage first: lumier deploy --stage ${stage}`
+    );
+  }
+  const state = await stack.exportStack();
+  return readAppliedMigrations(state.deployment?.resources ?? []);
+}
+
+async function prepareStack(
+  options: DeployOptions,
+  action: Action
+): Promise<{ config: ResourceRegistry; stack: Stack }> {
+  const { stage, rootDir, lumierDir, config } = options;
+
+  const credentials = getCloudflareCredentials();
+  assertValidRegistry(config);
+
+  const secrets = await readSecrets(lumierDir, stage);
+  assertSecretsAvailable(config, secrets);
+  const migrations = await readAllMigrations(config, rootDir);
+  const durableObjectMigrations = planDurableObjectMigrations(
+    config,
+    await readDeployedMigrations(config, options, action)
+  );
+
+  // A preview leaves the project's source untouched
+  if (action === "deploy") await generateTypes(config, rootDir);
+  const manifest = await build(config, { stage, rootDir, lumierDir });
+  // Catch timers from run() that fired during the build, before provisioning
+  assertNoLateRegistrations();
+
+  const program = createProgram(config, {
+    accountId: credentials.accountId,
+    apiToken: credentials.apiToken,
+    rootDir,
+    manifest,
+    secrets,
+    migrations,
+    durableObjectMigrations,
+  });
+  const stack = await selectStack(config, { stage, lumierDir, credentials, program, create: action === "deploy" });
+
+  return { config, stack };
+}
+
+/**
+ * Compare the registry against the last deployed state without changing
+ * anything. Builds the workers to compare their code, but neither generates
+ * types nor creates the stack.
+ */
+export async function preview(options: DeployOptions): Promise<Plan> {
+  const { stage, verbose = false } = options;
+  const { config, stack } = await prepareStack(options, "preview");
+
+  console.log("");
+  log("->  preview", `${config.app.name} (${stage})`);
+
+  const collector = createPlanCollector(declarationLocations(config));
+  await stack.preview({
+    diff: true,
+    onEvent: collector.onEvent,
+    onOutput: verbose ? (out) => process.stdout.write(out) : undefined,
+  });
+
+  printPlan(collector.plan);
+  return collector.plan;
+}
+
+export async function deploy(options: DeployOptions): Promise<Record<string, unknown>> {
+  const { stage, lumierDir, verbose = false } = options;
+  const { config, stack } = await prepareStack(options, "deploy");
+
+  console.log("");
+  log("->  deploy", `${config.app.name} (${stage})`);
+
+  const result = await stack.up({
+    onOutput: verbose ? (out) => process.stdout.write(out) : undefined,
+  });
+
+  const changes = result.summary.resourceChanges ?? {};
+  const summary = Object.entries(changes)
+    .filter(([op]) => op !== "same")
+    .map(([op, count]) => `${count} ${op}`)
+    .join(", ");
+  log("+ deploy", summary || "No changes");
+
+  const outputs: Record<string, unknown> = {};
+  for (const [key, output] of Object.entries(result.outputs)) {
+    outputs[key] = output.secret ? SECRET_OUTPUT : output.value;
+  }
+  await writeOutputs(lumierDir, stage, outputs);
+
+  if (Object.keys(outputs).length > 0) {
+    console.log(`\n${colors.bold}Outputs:${colors.reset}`);
+    for (const [key, value] of Object.entries(outputs)) {
+      console.log(`  ${colors.cyan}${key}${colors.reset}: ${formatOutput(value)}`);
+    }
+  }
+  console.log("");
+
+  return outputs;
+}
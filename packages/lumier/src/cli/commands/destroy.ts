@@ -0,0 +1,146 @@
+/**
+ * Destroy a Stage
+ *
+ * Tears down deployed resources while honoring `AppConfig.removal`:
+ * - "remove": delete everything
+ * - "retain": keep data resources (buckets, KV, D1, Vectorize, queues), delete compute
+ * - "retain-all": delete nothing, only detach resources from Lumier's state
+ */
+
+import type { RemovalPolicy, ResourceRegistry } from "../../sdk/index.js";
+import { colors } from "../lib/constants.js";
+import { removeOutputs } from "../lib/outputs.js";
+import { nameFromUrn, resourceKind } from "../lib/plan.js";
+import { getCloudflareCredentials, selectStack } from "../lib/pulumi.js";
+import { log } from "../lib/utils.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DestroyOptions {
+  stage: string;
+  lumierDir: string;
+  verbose?: boolean;
+  /** Registry the CLI loaded to check the stage's protection */
+  config: ResourceRegistry;
+}
+
+export interface RetainedResource {
+  kind: string;
+  name: string;
+  id: string;
+  /** Snippet that re-adopts the resource in lumier.config.ts */
+  existing?: string;
+}
+
+export interface DestroyReport {
+  removal: RemovalPolicy;
+  deleted: number;
+  retained: RetainedResource[];
+}
+
+interface StateResource {
+  urn: string;
+  type: string;
+  id?: string;
+  custom?: boolean;
+  retainOnDelete?: boolean;
+  outputs?: Record<string, unknown>;
+}
+
+// ============================================================================
+// Retention
+// ============================================================================
+
+/** Resource types that hold data and survive the "retain" policy */
+const DATA_RESOURCE_TYPES: Record<string, (name: string, outputs: Record<string, unknown>, id: string) => string> = {
+  "cloudflare:index/r2Bucket:R2Bucket": (name, outputs) =>
+    `Bucket.existing("${name}", { bucketName: "${outputs.name}" })`,
+  "cloudflare:index/workersKvNamespace:WorkersKvNamespace": (name, _outputs, id) =>
+    `KV.existing("${name}", { id: "${id}" })`,
+  "cloudflare:index/d1Database:D1Database": (name, _outputs, id) => `D1.existing("${name}", { id: "${id}" })`,
+  "pulumi-nodejs:dynamic/lumier:VectorizeIndex": (name, outputs) =>
+    `Vectorize.existing("${name}", { indexName: "${outputs.indexName}" })`,
+  "cloudflare:index/queue:Queue": (name, outputs) => `Queue.existing("${name}", { queueName: "${outputs.queueName}" })`,
+};
+
+function shouldRetain(resource: StateResource, removal: RemovalPolicy): boolean {
+  if (!resource.custom || resource.type.startsWith("pulumi:providers:")) return false;
+  if (removal === "retain-all") return true;
+  if (removal === "retain") return resource.type in DATA_RESOURCE_TYPES;
+  return false;
+}
+
+function describeRetained(resource: StateResource): RetainedResource {
+  // Logical names are "<kind>-<name>" (see lib/pulumi.ts)
+  const logicalName = nameFromUrn(resource.urn);
+  const name = logicalName.slice(logicalName.indexOf("-") + 1);
+  const id = resource.id ?? "";
+  const existing = DATA_RESOURCE_TYPES[resource.type]?.(name, resource.outputs ?? {}, id);
+
+  return { kind: resourceKind(resource.type), name, id, existing };
+}
+
+// ============================================================================
+// Destroy
+// ============================================================================
+
+export async function destroy(options: DestroyOptions): Promise<DestroyReport> {
+  const { stage, lumierDir, verbose = false, config } = options;
+
+  const credentials = getCloudflareCredentials();
+  const removal = config.app.removal ?? "remove";
+
+  const stack = await selectStack(config, { stage, lumierDir, credentials });
+
+  // Mark retained resources in state so the engine drops them without deleting
+  const state = await stack.exportStack();
+  const resources: StateResource[] = state.deployment?.resources ?? [];
+  const retained: RetainedResource[] = [];
+
+  for (const resource of resources) {
+    if (shouldRetain(resource, removal)) {
+      resource.retainOnDelete = true;
+      retained.push(describeRetained(resource));
+    }
+  }
+
+  if (retained.length > 0) {
+    await stack.importStack(state);
+  }
+
+  console.log("");
+  log("->  destroy", `${config.app.name} (${stage}, removal: ${removal})`);
+
+  const retainedUrns = new Set(resources.filter((r) => r.retainOnDelete).map((r) => r.urn));
+  let deleted = 0;
+
+  await stack.destroy({
+    onOutput: verbose ? (out) => process.stdout.write(out) : undefined,
+    onEvent: (event) => {
+      const metadata = event.resOutputsEvent?.metadata;
+      if (metadata?.op === "delete" && !(retainedUrns.has(metadata.urn) || metadata.type.startsWith("pulumi:"))) {
+        deleted++;
+      }
+    },
+  });
+
+  await removeOutputs(lumierDir, stage);
+  log("+ destroy", `${deleted} deleted, ${retained.length} retained`);
+
+  if (retained.length > 0) {
+    console.log(`\n${colors.bold}Retained resources:${colors.reset}`);
+    for (const resource of retained) {
+      console.log(
+        `  ${resource.kind} ${colors.bold}${resource.name}${colors.reset} ${colors.dim}${resource.id}${colors.reset}`
+      );
+      if (resource.existing) {
+        console.log(`    ${colors.dim}${resource.existing}${colors.reset}`);
+      }
+    }
+  }
+  console.log("");
+
+  return { removal, deleted, retained };
+}
@@ -1,11 +1,14 @@
 /**
  * Development Server using Miniflare
  *
- * Uses multiple Miniflare instances (one per worker) with cross-worker
- * communication via function-based service bindings.
+ * Runs every worker in a single Miniflare instance, so service bindings
+ * (including named entrypoints and RPC), Durable Objects hosted by another
+ * worker and queues behave as deployed. Miniflare's router serves the first
+ * worker on the dev port and any worker at `<worker>.localhost:<port>`; each
+ * other worker also gets a port of its own.
  */
 
-import * as fs from "node:fs/promises";
+import { existsSync } from "node:fs";
 import * as path from "node:path";
 import type { Readable } from "node:stream";
 import * as chokidar from "chokidar";
@@ -16,29 +19,110 @@ import {
   type MiniflareOptions,
   type WorkerOptions as MiniflareWorkerOptions,
 } from "miniflare";
-import type { ResourceRegistry, WorkerOptions } from "../../sdk/index.js";
-import { build } from "../lib/build.js";
+import type {
+  AssetsOptions,
+  ResourceRegistry,
+  SecretOutput,
+  SSRSite,
+  StaticSiteOptions,
+  WorkerOptions,
+} from "../../sdk/index.js";
+import { build, createBuildCache } from "../lib/build.js";
 import { generateAll } from "../lib/codegen.js";
-import { colors, DEFAULT_COMPATIBILITY_DATE, DEFAULT_COMPATIBILITY_FLAGS, DEFAULT_DEV_PORT } from "../lib/constants.js";
+import {
+  colors,
+  DEFAULT_ASSETS_BINDING,
+  DEFAULT_COMPATIBILITY_DATE,
+  DEFAULT_COMPATIBILITY_FLAGS,
+  DEFAULT_DEV_PORT,
+  DEFAULT_STAGE,
+  PERSIST_DIR_NAME,
+} from "../lib/constants.js";
+import { migrateLocalDatabases } from "../lib/d1.js";
+import {
+  type DevServer,
+  devServerProxyScript,
+  isCurrentDevServer,
+  startDevServer,
+  stopDevServer,
+  writePlatformProxyConfig,
+} from "../lib/dev-servers.js";
+import { type LocalStores, miniflareStores, storesWorkerOptions } from "../lib/local-stores.js";
+import {
+  acquirePersistLock,
+  assertPersistUnlocked,
+  clearPersistedState,
+  getPersistDir,
+  moveUnstagedData,
+  releasePersistLock,
+} from "../lib/persist.js";
+import { buildQueueConsumers } from "../lib/queues.js";
+import { assertSecretsAvailable, readSecrets, resolveSecret, type SecretStore } from "../lib/secrets.js";
+import { seedLocalStores } from "../lib/seed.js";
+import { siteOutputDir, siteSourceDir } from "../lib/sites.js";
+import type { BuildManifest } from "../lib/types.js";
 import { isLinkableResource, LumierError, log } from "../lib/utils.js";
+import { assertValidRegistry } from "../lib/validate.js";
 
 // ============================================================================
 // Types
 // ============================================================================
 
-interface MiniflareInstance {
+interface DevWorker {
+  name: string;
+  options: WorkerOptions;
+  /** Set for the worker of an SSR site, which proxies to the framework's dev server */
+  site?: SSRSite;
+}
+
+interface DevSite {
   name: string;
-  port: number;
-  mf: Miniflare;
+  options: StaticSiteOptions;
 }
 
+/** What the Miniflare options of a dev session are built from */
+interface DevContext {
+  config: ResourceRegistry;
+  /** Workers to run, in port order */
+  workers: DevWorker[];
+  /** Static sites to serve, on the ports after the workers */
+  sites: DevSite[];
+  rootDir: string;
+  buildDir: string;
+  persistDir: string;
+  basePort: number;
+  secrets: SecretStore;
+}
+
+type DurableObjectDesignator = { className: string; scriptName?: string; useSQLite?: boolean };
+type ServiceDesignator = { name: string; entrypoint?: string };
+
+/** What service and Durable Object bindings can target in dev */
+interface BindingTargets {
+  /** Script names of the running workers */
+  scripts: Set<string>;
+  /** Namespace of each DurableObject() by name */
+  durableObjects: Map<string, DurableObjectDesignator>;
+}
+
+/** Milliseconds without asset changes before the dev server picks them up */
+const ASSETS_RELOAD_DELAY = 200;
+
+/** Code of a static site's worker, which only runs for requests matching no asset */
+const SITE_WORKER_SCRIPT = "export default { fetch() { return new Response(null, { status: 404 }); } };";
+
+/** Extensions of the files worker bundles and D1 migrations are built from */
+const WATCHED_EXTENSIONS = new Set([".ts", ".tsx", ".js", ".mjs", ".json", ".sql", ".wasm"]);
+
 // ============================================================================
 // Process Tracking
 // ============================================================================
 
-let globalInstances: MiniflareInstance[] = [];
+let globalMiniflare: Miniflare | null = null;
 let globalWatcher: chokidar.FSWatcher | null = null;
 let globalConfigWatcher: chokidar.FSWatcher | null = null;
+const globalDevServers = new Map<string, DevServer>();
+let globalPersistDir: string | null = null;
 let isShuttingDown = false;
 
 // ============================================================================
@@ -61,10 +145,21 @@ async function shutdown(code: number = 0): Promise<void> {
     globalConfigWatcher = null;
   }
 
-  for (const instance of globalInstances) {
-    await instance.mf.dispose();
+  for (const server of globalDevServers.values()) {
+    stopDevServer(server);
+  }
+  globalDevServers.clear();
+
+  // Before disposing: the process can exit while the runtime shuts down
+  if (globalPersistDir) {
+    await releasePersistLock(globalPersistDir);
+    globalPersistDir = null;
+  }
+
+  if (globalMiniflare) {
+    await globalMiniflare.dispose();
+    globalMiniflare = null;
   }
-  globalInstances = [];
 
   process.exit(code);
 }
@@ -92,8 +187,8 @@ interface BindingCollections {
   r2Buckets: Record<string, string>;
   d1Databases: Record<string, string>;
   queueProducers: Record<string, string>;
-  durableObjects: Record<string, { className: string; scriptName?: string; useSQLite?: boolean }>;
-  serviceBindingTargets: Record<string, string>;
+  durableObjects: Record<string, DurableObjectDesignator>;
+  serviceBindings: Record<string, ServiceDesignator>;
   hyperdrives: Record<string, { connectionString: string }>;
 }
 
@@ -105,17 +200,45 @@ function createEmptyCollections(): BindingCollections {
     d1Databases: {},
     queueProducers: {},
     durableObjects: {},
-    serviceBindingTargets: {},
+    serviceBindings: {},
     hyperdrives: {},
   };
 }
 
+function warnSkippedBinding(key: string, reason: string): void {
+  console.warn(`${colors.yellow}Warning: Binding "${key}" ${reason} - binding skipped in dev${colors.reset}`);
+}
+
+/**
+ * Bind a DurableObject() namespace. Every binding of a namespace shares its
+ * host worker and storage backend, as declared in the registry.
+ */
+function processDurableObjectBinding(
+  key: string,
+  value: { name: string; className?: string; _ref?: Record<string, unknown> },
+  collections: BindingCollections,
+  targets: BindingTargets
+): void {
+  const namespace = targets.durableObjects.get(value.name) ?? {
+    className: value.className ?? "",
+    scriptName: value._ref?.scriptName as string | undefined,
+    useSQLite: true,
+  };
+  if (namespace.scriptName && !targets.scripts.has(namespace.scriptName)) {
+    warnSkippedBinding(key, `uses a Durable Object hosted by "${namespace.scriptName}", which is not running`);
+    return;
+  }
+  collections.durableObjects[key] = namespace;
+}
+
 function processLinkableBinding(
   key: string,
   value: { type: string; name: string; className?: string; _ref?: Record<string, unknown> },
-  collections: BindingCollections
+  collections: BindingCollections,
+  secrets: SecretStore,
+  targets: BindingTargets
 ): void {
-  const { type, name, className, _ref } = value;
+  const { type, name, _ref } = value;
 
   if (type === "kv") {
     collections.kvNamespaces[key] = `kv-${name}`;
@@ -126,13 +249,24 @@ function processLinkableBinding(
   } else if (type === "queue") {
     collections.queueProducers[key] = name;
   } else if (type === "durable_object") {
-    collections.durableObjects[key] = {
-      className: className ?? "",
-      useSQLite: true,
-    };
+    processDurableObjectBinding(key, value, collections, targets);
   } else if (type === "worker") {
     const scriptName = (_ref?.scriptName as string) ?? "";
-    collections.serviceBindingTargets[key] = scriptName;
+    if (!targets.scripts.has(scriptName)) {
+      warnSkippedBinding(key, `targets "${scriptName}", which is not running`);
+      return;
+    }
+    collections.serviceBindings[key] = { name: scriptName };
+  } else if (type === "secret") {
+    const secretValue = resolveSecret(value as SecretOutput, secrets);
+    if (secretValue === undefined) {
+      throw new LumierError(
+        `Secret binding "${key}" has no value: "${name}" is not set and has no placeholder`,
+        "MISSING_SECRETS",
+        `Set it with: lumier secret set ${name}`
+      );
+    }
+    collections.textBindings[key] = secretValue;
   } else if (type === "hyperdrive") {
     const connString = _ref?.localConnectionString as string | undefined;
     if (connString) {
@@ -148,7 +282,8 @@ function processLinkableBinding(
 function processManualBinding(
   key: string,
   value: { type: string; value?: unknown; service?: string; entrypoint?: string },
-  collections: BindingCollections
+  collections: BindingCollections,
+  targets: BindingTargets
 ): void {
   const { type } = value;
 
@@ -157,20 +292,32 @@ function processManualBinding(
   } else if (type === "json") {
     collections.textBindings[key] = JSON.stringify(value.value);
   } else if (type === "service" && value.service) {
-    collections.serviceBindingTargets[key] = value.service;
+    if (!targets.scripts.has(value.service)) {
+      warnSkippedBinding(key, `targets "${value.service}", which is not a worker of this app`);
+      return;
+    }
+    collections.serviceBindings[key] = { name: value.service, entrypoint: value.entrypoint };
   }
 }
 
-function processBindings(bindings: Record<string, unknown> | undefined): BindingCollections {
+/**
+ * Sort a worker's bindings into Miniflare options. Service and Durable Object
+ * bindings must target a worker running in dev.
+ */
+function processBindings(
+  bindings: Record<string, unknown> | undefined,
+  secrets: SecretStore,
+  targets: BindingTargets
+): BindingCollections {
   const collections = createEmptyCollections();
 
   for (const [key, value] of Object.entries(bindings ?? {})) {
     if (typeof value === "string") {
       collections.textBindings[key] = value;
     } else if (isLinkableResource(value)) {
-      processLinkableBinding(key, value as never, collections);
+      processLinkableBinding(key, value as never, collections, secrets, targets);
     } else if (typeof value === "object" && value !== null && "type" in value) {
-      processManualBinding(key, value as never, collections);
+      processManualBinding(key, value as never, collections, targets);
     }
   }
 
@@ -184,7 +331,7 @@ function processBindings(bindings: Record<string, unknown> | undefined): Binding
 function buildCronsByWorker(config: ResourceRegistry): Map<string, string[]> {
   const map = new Map<string, string[]>();
   for (const cronEntry of config.crons) {
-    const workerName = cronEntry.options.worker._ref.scriptName;
+    const workerName = cronEntry.options.worker.name;
     const crons = map.get(workerName) ?? [];
     crons.push(cronEntry.options.schedule);
     map.set(workerName, crons);
@@ -192,67 +339,111 @@ function buildCronsByWorker(config: ResourceRegistry): Map<string, string[]> {
   return map;
 }
 
-function buildQueueConsumers(
-  config: ResourceRegistry
-): Record<string, { maxBatchSize?: number; maxBatchTimeout?: number; maxRetries?: number }> {
-  const consumers: Record<string, { maxBatchSize?: number; maxBatchTimeout?: number; maxRetries?: number }> = {};
-  for (const queueEntry of config.queues) {
-    const consumer = queueEntry.options?.consumer;
-    if (consumer) {
-      consumers[queueEntry.name] = {
-        maxBatchSize: consumer.settings?.batchSize,
-        maxBatchTimeout: consumer.settings?.batchTimeout,
-        maxRetries: consumer.settings?.maxRetries,
-      };
-    }
+/**
+ * Script name of a worker, the same as its deployed name and its
+ * WorkerOutput's `_ref.scriptName`
+ */
+function scriptNameOf(config: ResourceRegistry, workerName: string): string {
+  return `${config.app.name}-${config.app.stage}-${workerName}`;
+}
+
+/**
+ * Port of each worker, then of each static site: the dev port for the first,
+ * then one each
+ */
+function workerPorts(context: DevContext): Map<string, number> {
+  const names = [...context.workers, ...context.sites].map((entry) => entry.name);
+  return new Map(names.map((name, index) => [name, context.basePort + index]));
+}
+
+/**
+ * Namespaces of the registry's Durable Objects. Miniflare keeps each one's
+ * storage in `do/<host script>-<class>` under the persist directory, so it is
+ * shared by every worker that binds it.
+ */
+function buildBindingTargets(context: DevContext): BindingTargets {
+  const { config, workers } = context;
+  const durableObjects = new Map<string, DurableObjectDesignator>();
+  for (const { name, options } of config.durableObjects) {
+    durableObjects.set(name, {
+      className: options.className,
+      scriptName: scriptNameOf(config, options.worker.name),
+      useSQLite: options.sqlite ?? true,
+    });
   }
-  return consumers;
+
+  return { scripts: new Set(workers.map((worker) => scriptNameOf(config, worker.name))), durableObjects };
 }
 
-function buildMiniflareConfig(
-  worker: { name: string; options: WorkerOptions },
-  config: ResourceRegistry,
-  buildDir: string,
-  persistDir: string,
-  port: number,
-  stage: string,
-  cronsByWorker: Map<string, string[]>,
-  workerPortMap: Map<string, number>
-): MiniflareOptions {
+function warnMissingAssets(directory: string, owner: string): void {
+  console.warn(
+    `${colors.yellow}Warning: Assets directory "${directory}" of ${owner} does not exist - assets skipped in dev${colors.reset}`
+  );
+}
+
+/**
+ * Miniflare assets of a worker, routed as in production: the worker runs for
+ * requests that match no asset, or first with `runWorkerFirst`
+ */
+function buildAssetsOptions(assets: AssetsOptions, rootDir: string): MiniflareWorkerOptions["assets"] {
+  return {
+    directory: path.resolve(rootDir, assets.directory),
+    binding: assets.binding ?? DEFAULT_ASSETS_BINDING,
+    routerConfig: { has_user_worker: true, invoke_user_worker_ahead_of_assets: assets.runWorkerFirst ?? false },
+    assetConfig: {
+      html_handling: assets.htmlHandling ?? "auto-trailing-slash",
+      not_found_handling: assets.notFoundHandling ?? "none",
+    },
+  };
+}
+
+function buildWorkerOptions(
+  worker: DevWorker,
+  index: number,
+  context: DevContext,
+  targets: BindingTargets,
+  cronsByWorker: Map<string, string[]>
+): MiniflareWorkerOptions {
+  const { config, rootDir, buildDir, basePort, secrets } = context;
   const { name, options: workerOpts } = worker;
-  const fullName = `${config.app.name}-${stage}-${name}`;
-  const scriptPath = path.join(buildDir, name, `${name}.js`);
-  const collections = processBindings(workerOpts.bindings as Record<string, unknown>);
-
-  // Build service bindings as fetch functions to other worker ports
-  const serviceBindings: Record<string, (request: Request) => Promise<Response>> = {};
-  for (const [bindingName, targetWorkerName] of Object.entries(collections.serviceBindingTargets)) {
-    const targetPort = workerPortMap.get(targetWorkerName);
-    if (targetPort) {
-      serviceBindings[bindingName] = (request: Request) => {
-        const url = new URL(request.url);
-        url.host = `localhost:${targetPort}`;
-        return fetch(new Request(url.toString(), request));
-      };
-    }
-  }
+  const collections = processBindings(workerOpts.bindings as Record<string, unknown>, secrets, targets);
 
   const workerConfig: MiniflareWorkerOptions = {
-    name: fullName,
-    scriptPath,
+    name: scriptNameOf(config, name),
+    scriptPath: path.join(buildDir, name, `${name}.js`),
     modules: true,
     compatibilityDate: workerOpts.compatibilityDate ?? DEFAULT_COMPATIBILITY_DATE,
     compatibilityFlags: workerOpts.compatibilityFlags ?? DEFAULT_COMPATIBILITY_FLAGS,
+    // Requests to <worker>.localhost on the dev port are routed here
+    routes: [`${name}.localhost/*`],
     bindings: collections.textBindings,
     kvNamespaces: collections.kvNamespaces,
     r2Buckets: collections.r2Buckets,
     d1Databases: collections.d1Databases,
     queueProducers: collections.queueProducers,
     durableObjects: Object.keys(collections.durableObjects).length > 0 ? collections.durableObjects : undefined,
-    serviceBindings: Object.keys(serviceBindings).length > 0 ? serviceBindings : undefined,
+    serviceBindings: Object.keys(collections.serviceBindings).length > 0 ? collections.serviceBindings : undefined,
     hyperdrives: Object.keys(collections.hyperdrives).length > 0 ? collections.hyperdrives : undefined,
   };
 
+  // Framework output may not exist before its first build; the watcher
+  // picks the assets up once files appear
+  if (workerOpts.assets && existsSync(path.resolve(rootDir, workerOpts.assets.directory))) {
+    workerConfig.assets = buildAssetsOptions(workerOpts.assets, rootDir);
+  } else if (workerOpts.assets) {
+    warnMissingAssets(workerOpts.assets.directory, `worker "${name}"`);
+  }
+
+  // The first worker is served on the dev port; the others on ports of their own
+  if (index > 0) {
+    workerConfig.unsafeDirectSockets = [{ port: basePort + index }];
+  }
+
+  const queueConsumers = buildQueueConsumers(config, name);
+  if (Object.keys(queueConsumers).length > 0) {
+    workerConfig.queueConsumers = queueConsumers;
+  }
+
   // Add crons if defined for this worker
   const crons = cronsByWorker.get(name);
   if (crons && crons.length > 0) {
@@ -265,18 +456,99 @@ function buildMiniflareConfig(
     (workerConfig as Record<string, unknown>).unsafeEvalBinding = "__UNSAFE_EVAL";
   }
 
-  const queueConsumers = buildQueueConsumers(config);
+  return workerConfig;
+}
+
+/**
+ * Miniflare options of a static site: an assets-only worker with the site's
+ * not-found and HTML handling
+ */
+function buildSiteOptions(site: DevSite, index: number, context: DevContext): MiniflareWorkerOptions {
+  const { config, rootDir, basePort } = context;
+  const { name, options: siteOpts } = site;
+  const directory = siteOutputDir(siteOpts, rootDir);
+
+  const siteConfig: MiniflareWorkerOptions = {
+    name: scriptNameOf(config, name),
+    script: SITE_WORKER_SCRIPT,
+    modules: true,
+    compatibilityDate: DEFAULT_COMPATIBILITY_DATE,
+  };
+
+  if (existsSync(directory)) {
+    siteConfig.assets = {
+      directory,
+      routerConfig: { has_user_worker: false },
+      assetConfig: {
+        html_handling: siteOpts.htmlHandling ?? "auto-trailing-slash",
+        not_found_handling: siteOpts.notFoundHandling ?? "404-page",
+      },
+    };
+  } else {
+    warnMissingAssets(path.relative(rootDir, directory) || ".", `StaticSite "${name}"`);
+  }
+
+  if (index > 0) {
+    siteConfig.unsafeDirectSockets = [{ port: basePort + index }];
+  }
+
+  return siteConfig;
+}
+
+/**
+ * Miniflare options of an SSR site's worker, which forwards requests to the
+ * framework's dev server
+ */
+function buildSSRSiteOptions(
+  worker: DevWorker,
+  site: SSRSite,
+  index: number,
+  context: DevContext
+): MiniflareWorkerOptions {
+  const { config, basePort } = context;
+
+  const siteConfig: MiniflareWorkerOptions = {
+    name: scriptNameOf(config, worker.name),
+    script: devServerProxyScript(site),
+    modules: true,
+    compatibilityDate: DEFAULT_COMPATIBILITY_DATE,
+    routes: [`${worker.name}.localhost/*`],
+  };
+
+  if (index > 0) {
+    siteConfig.unsafeDirectSockets = [{ port: basePort + index }];
+  }
+
+  return siteConfig;
+}
+
+function buildMiniflareOptions(context: DevContext): MiniflareOptions {
+  const { config, workers, sites, persistDir, basePort } = context;
+  const targets = buildBindingTargets(context);
+  const cronsByWorker = buildCronsByWorker(config);
 
   return {
     log: new Log(LogLevel.WARN),
     verbose: false,
-    port,
-    workers: [workerConfig],
+    port: basePort,
+    // Enables /cdn-cgi/handler/scheduled for triggering crons
+    unsafeTriggerHandlers: true,
+    // Pages served from assets reload in the browser when the workers are updated
+    liveReload: sites.length > 0 || workers.some((worker) => worker.options.assets),
+    workers: [
+      ...workers.map((worker, index) =>
+        worker.site
+          ? buildSSRSiteOptions(worker, worker.site, index, context)
+          : buildWorkerOptions(worker, index, context, targets, cronsByWorker)
+      ),
+      ...sites.map((site, index) => buildSiteOptions(site, workers.length + index, context)),
+      // Migrations and seeds run through the dev server's own runtime
+      storesWorkerOptions(config),
+    ],
     kvPersist: path.join(persistDir, "kv"),
     r2Persist: path.join(persistDir, "r2"),
     d1Persist: path.join(persistDir, "d1"),
     durableObjectsPersist: path.join(persistDir, "do"),
-    queueConsumers: Object.keys(queueConsumers).length > 0 ? queueConsumers : undefined,
     handleRuntimeStdio: (_stdout: Readable, stderr: Readable) => {
       stderr.on("data", (chunk: Buffer) => {
         const text = chunk.toString();
@@ -289,31 +561,141 @@ function buildMiniflareConfig(
   };
 }
 
+function printWorkerUrls(context: DevContext): void {
+  const ports = workerPorts(context);
+  const cronsByWorker = buildCronsByWorker(context.config);
+
+  console.log("");
+  for (const { name, site } of context.workers) {
+    const devServer = site ? ` (${site.framework} dev server on ${site.devPort})` : "";
+    log(`+ ${name}`, `http://localhost:${ports.get(name)}${devServer}`);
+  }
+  for (const { name } of context.sites) {
+    log(`+ ${name}`, `http://localhost:${ports.get(name)}`);
+  }
+
+  // Scheduled events are triggered through the router on the dev port
+  const cronWorkers = context.workers.filter((worker) => cronsByWorker.has(worker.name));
+  if (cronWorkers.length > 0) {
+    console.log("");
+    for (const worker of cronWorkers) {
+      log(
+        "~ cron",
+        `${worker.name}: curl "http://${worker.name}.localhost:${context.basePort}/cdn-cgi/handler/scheduled"`
+      );
+    }
+  }
+}
+
 // ============================================================================
-// Dev Server
+// Local Data
 // ============================================================================
 
-export interface DevOptions {
-  stage: string;
-  worker?: string;
-  port?: number;
-  rootDir: string;
-  lumierDir: string;
-  loadConfig: () => Promise<ResourceRegistry>;
+/**
+ * Give data from before local data was kept per stage to the default stage,
+ * or point it out when that stage already has data of its own
+ */
+async function adoptUnstagedData(rootDir: string, lumierDir: string): Promise<void> {
+  const unstaged = await moveUnstagedData(lumierDir, DEFAULT_STAGE);
+  if (!unstaged) return;
+
+  const oldDir = path.relative(rootDir, path.join(lumierDir, PERSIST_DIR_NAME));
+  const entries = unstaged.paths.join(", ");
+  if (unstaged.movedTo) {
+    log("~ state", `Moved ${entries} from ${oldDir} to stage "${unstaged.movedTo}"`);
+    return;
+  }
+  console.warn(
+    `${colors.yellow}Warning: ${entries} in ${oldDir} is local data from before stages and is not used - move it into ${oldDir}/<stage>/ to keep it, or delete it${colors.reset}`
+  );
 }
 
-export async function dev(options: DevOptions): Promise<void> {
-  const { stage, rootDir, lumierDir, loadConfig } = options;
+/**
+ * Apply pending D1 migrations, then the seeds not applied to this persist
+ * directory yet (all of them with `reseed`)
+ */
+async function prepareLocalData(
+  config: ResourceRegistry,
+  rootDir: string,
+  persistDir: string,
+  stores: LocalStores,
+  reseed = false
+): Promise<void> {
+  await migrateLocalDatabases(config, rootDir, stores, (name, migration) => {
+    log(`+ ${name}`, `Migrated ${migration.name}`);
+  });
+  await seedLocalStores(config, {
+    rootDir,
+    persistDir,
+    stores,
+    force: reseed,
+    onSeeded: (resource) => log("+ seed", resource),
+  });
+}
 
-  let config = await loadConfig();
+/**
+ * Start the dev servers of the context's SSR sites, restarting those whose
+ * settings changed and stopping those of sites no longer running. Their
+ * platform proxy configs are rewritten every time.
+ */
+async function syncDevServers(context: DevContext): Promise<void> {
+  const { config, rootDir, buildDir, persistDir, secrets } = context;
+  const targets = buildBindingTargets(context);
+  const sites = new Map(context.workers.flatMap((worker) => (worker.site ? [[worker.name, worker] as const] : [])));
+
+  for (const [name, server] of globalDevServers) {
+    const site = sites.get(name)?.site;
+    if (!(site && isCurrentDevServer(server, site))) {
+      stopDevServer(server);
+      globalDevServers.delete(name);
+    }
+  }
 
-  const persistDir = path.join(lumierDir, "persist");
-  const buildDir = path.join(lumierDir, "build");
-  await fs.mkdir(persistDir, { recursive: true });
+  for (const [name, worker] of sites) {
+    const site = worker.site!;
+    const collections = processBindings(worker.options.bindings as Record<string, unknown>, secrets, targets);
+    const configPath = path.join(buildDir, name, "wrangler.json");
+    await writePlatformProxyConfig(configPath, {
+      scriptName: scriptNameOf(config, name),
+      compatibilityDate: worker.options.compatibilityDate ?? DEFAULT_COMPATIBILITY_DATE,
+      compatibilityFlags: worker.options.compatibilityFlags ?? DEFAULT_COMPATIBILITY_FLAGS,
+      bindings: collections,
+    });
+
+    if (globalDevServers.has(name)) continue;
+
+    // The platform proxy runs outside Miniflare, so it cannot reach other workers
+    const unproxied = [
+      ...Object.keys(collections.serviceBindings),
+      ...Object.keys(collections.durableObjects),
+      ...Object.keys(collections.queueProducers),
+    ];
+    for (const key of unproxied) {
+      warnSkippedBinding(key, `is not available to the ${site.framework} dev server`);
+    }
+
+    log(`->  ${name}`, `Starting ${site.devCommand}...`);
+    globalDevServers.set(name, startDevServer(name, site, { rootDir, configPath, persistDir }));
+  }
+}
 
-  // Build and generate
+// ============================================================================
+// Dev Server
+// ============================================================================
+
+/** The changed files for the rebuild log line */
+function describeChanges(files: string[], rootDir: string): string {
+  const [first, ...rest] = files.map((file) => path.relative(rootDir, file));
+  return rest.length > 0 ? `${first} (+${rest.length} more)` : `${first}`;
+}
+
+/**
+ * Run a startup step, logging Lumier errors instead of exiting so they can be
+ * fixed while the watcher runs
+ */
+async function reportErrors(step: () => Promise<unknown>): Promise<void> {
   try {
-    await build(config, { stage, rootDir, lumierDir, silent: true });
+    await step();
   } catch (err) {
     if (err instanceof LumierError) {
       log("x error", err.message);
@@ -321,105 +703,83 @@ export async function dev(options: DevOptions): Promise<void> {
       throw err;
     }
   }
-  await generateAll(config, rootDir, lumierDir);
+}
 
-  const workers = options.worker ? config.workers.filter((w) => w.name === options.worker) : config.workers;
-  const basePort = options.port ?? DEFAULT_DEV_PORT;
+export interface DevOptions {
+  stage: string;
+  worker?: string;
+  port?: number;
+  rootDir: string;
+  lumierDir: string;
+  /** Apply seeds again even if the persist directory was seeded before */
+  reseed?: boolean;
+  /** Delete the stage's local data before starting */
+  reset?: boolean;
+  loadConfig: () => Promise<ResourceRegistry>;
+}
 
-  if (workers.length === 0) {
-    throw new LumierError("No workers found", "NO_WORKERS");
-  }
+export async function dev(options: DevOptions): Promise<void> {
+  const { stage, rootDir, lumierDir } = options;
+
+  let secrets: SecretStore = {};
 
-  // Build port map first (needed for service bindings)
-  const workerPortMap = new Map<string, number>();
-  let currentPort = basePort;
-  for (const worker of workers) {
-    workerPortMap.set(worker.name, currentPort++);
+  // Every config (re)load must be valid and have its Secret() bindings satisfied
+  async function loadConfig(): Promise<ResourceRegistry> {
+    const loaded = await options.loadConfig();
+    assertValidRegistry(loaded, { workers: options.worker ? [options.worker] : undefined, dev: true });
+    secrets = await readSecrets(lumierDir, stage);
+    assertSecretsAvailable(loaded, secrets);
+    return loaded;
   }
 
-  const cronsByWorker = buildCronsByWorker(config);
+  let config = await loadConfig();
 
-  // Create separate Miniflare instance per worker
-  const instances: MiniflareInstance[] = [];
-  for (const worker of workers) {
-    const port = workerPortMap.get(worker.name)!;
-    const miniflareConfig = buildMiniflareConfig(
-      worker,
-      config,
-      buildDir,
-      persistDir,
-      port,
-      stage,
-      cronsByWorker,
-      workerPortMap
-    );
+  const persistDir = getPersistDir(lumierDir, stage);
+  const buildDir = path.join(lumierDir, "build");
 
-    const mf = new Miniflare(miniflareConfig);
-    await mf.ready;
-    instances.push({ name: worker.name, port, mf });
+  await adoptUnstagedData(rootDir, lumierDir);
+
+  // One runtime per persist directory: its SQLite files cannot be opened twice
+  await assertPersistUnlocked(persistDir, stage);
+  if (options.reset) {
+    await clearPersistedState(config, persistDir);
+    log("- state", `Cleared local data of stage "${stage}"`);
   }
+  await acquirePersistLock(persistDir, stage, "dev");
+  globalPersistDir = persistDir;
 
-  globalInstances = instances;
+  // Kept for the whole session, so rebuilds only bundle what changed
+  const buildCache = createBuildCache();
 
-  console.log("");
-  for (const instance of instances) {
-    log(`+ ${instance.name}`, `http://localhost:${instance.port}`);
-  }
+  // Build and generate; migrations and seeds run once the runtime is up
+  let manifest: BuildManifest | undefined;
+  await reportErrors(async () => {
+    manifest = await build(config, { stage, rootDir, lumierDir, silent: true, dev: true, cache: buildCache });
+  });
+  await generateAll(config, rootDir, lumierDir);
 
-  // Show cron info if any
-  if (config.crons.length > 0) {
-    console.log("");
-    for (const instance of instances) {
-      const workerCrons = cronsByWorker.get(instance.name);
-      if (workerCrons && workerCrons.length > 0) {
-        log("~ cron", `${instance.name}: curl "http://localhost:${instance.port}/cdn-cgi/mf/scheduled"`);
-      }
+  const basePort = options.port ?? DEFAULT_DEV_PORT;
+
+  function createContext(): DevContext {
+    const workers = options.worker ? config.workers.filter((w) => w.name === options.worker) : config.workers;
+    const sites = options.worker ? [] : config.staticSites;
+    if (workers.length === 0 && sites.length === 0) {
+      throw new LumierError("No workers found", "NO_WORKERS");
     }
+    return { config, workers, sites, rootDir, buildDir, persistDir, basePort, secrets };
   }
 
-  console.log(`\n${colors.dim}Watching for changes... (Ctrl+C to stop)${colors.reset}\n`);
-
-  let isRebuilding = false;
+  let context = createContext();
+  const mf = new Miniflare(buildMiniflareOptions(context));
+  await mf.ready;
+  globalMiniflare = mf;
+  const stores = miniflareStores(mf);
 
-  async function handleRebuild(filename: string): Promise<void> {
-    if (isRebuilding) return;
+  await reportErrors(() => prepareLocalData(config, rootDir, persistDir, stores, options.reseed));
 
-    isRebuilding = true;
-    log("~ rebuild", filename);
-
-    try {
-      config = await loadConfig();
-      await build(config, { stage, rootDir, lumierDir, silent: true });
-
-      const updatedCrons = buildCronsByWorker(config);
-
-      for (const instance of globalInstances) {
-        const worker = config.workers.find((w) => w.name === instance.name);
-        if (!worker) continue;
-
-        const mfConfig = buildMiniflareConfig(
-          worker,
-          config,
-          buildDir,
-          persistDir,
-          instance.port,
-          stage,
-          updatedCrons,
-          workerPortMap
-        );
-        await instance.mf.setOptions(mfConfig);
-      }
-
-      log("+ reload", "Workers updated");
-    } catch (err) {
-      if (err instanceof LumierError) {
-        log("x error", err.message);
-      } else {
-        log("x error", String(err));
-      }
-    }
-    isRebuilding = false;
-  }
+  printWorkerUrls(context);
+  console.log(`\n${colors.dim}Watching for changes... (Ctrl+C to stop)${colors.reset}\n`);
+  await reportErrors(() => syncDevServers(context));
 
   globalWatcher = chokidar.watch(rootDir, {
     ignored: (filePath: string) => {
@@ -438,115 +798,166 @@ export async function dev(options: DevOptions): Promise<void> {
     },
   });
 
-  globalWatcher?.on("change", (filepath) => {
-    if (filepath.endsWith(".ts") || filepath.endsWith(".tsx")) {
-      handleRebuild(path.relative(rootDir, filepath));
-    }
-  });
+  let assetsReload: ReturnType<typeof setTimeout> | undefined;
+
+  // Assets are served from disk, so only the asset manifest needs refreshing.
+  // Builds write many files at once; reload once they settle.
+  function scheduleAssetsReload(): void {
+    clearTimeout(assetsReload);
+    assetsReload = setTimeout(async () => {
+      try {
+        await mf.setOptions(buildMiniflareOptions(context));
+        log("+ reload", "Assets updated");
+      } catch (err) {
+        log("x error", String(err));
+      }
+    }, ASSETS_RELOAD_DELAY);
+  }
 
-  // Watch config file separately for type regeneration
-  globalConfigWatcher = chokidar.watch(path.join(rootDir, "lumier.config.ts"), {
-    ignoreInitial: true,
-    usePolling: true,
-    interval: 300,
-  });
+  function isInside(filepath: string, directory: string): boolean {
+    return filepath.startsWith(`${directory}${path.sep}`);
+  }
 
-  globalConfigWatcher?.on("change", async () => {
-    if (isRebuilding) return;
+  function isAssetFile(filepath: string): boolean {
+    const directories = [
+      ...context.workers.flatMap((worker) =>
+        worker.options.assets ? [path.resolve(rootDir, worker.options.assets.directory)] : []
+      ),
+      ...context.sites.map((site) => siteOutputDir(site.options, rootDir)),
+    ];
+    return directories.some((directory) => isInside(filepath, directory));
+  }
 
-    isRebuilding = true;
-    log("~ config", "lumier.config changed");
+  // Sources of a site with a build command rebuild it; the build's output then reloads as assets
+  function isSiteSource(filepath: string): boolean {
+    return context.sites.some(
+      (site) => site.options.buildCommand && isInside(filepath, siteSourceDir(site.options, rootDir))
+    );
+  }
 
-    try {
-      config = await loadConfig();
-      const result = await generateAll(config, rootDir, lumierDir, { force: true });
+  // The framework dev server reloads SSR sites itself. An app in the project
+  // root holds every file, so those still rebuild the other workers.
+  function isSSRSiteFile(filepath: string): boolean {
+    return context.workers.some((worker) => {
+      const appDir = worker.site && path.resolve(rootDir, worker.site.path);
+      return appDir !== undefined && appDir !== rootDir && isInside(filepath, appDir);
+    });
+  }
 
-      if (result.generated.length > 0) {
-        log("+ types", result.generated.join(", "));
-      }
+  // Workers whose last bundle includes one of the files, and those without a bundle yet
+  function affectedWorkers(files: string[]): string[] {
+    const changed = new Set(files.map((file) => path.relative(rootDir, file)));
+    return context.workers
+      .filter((worker) => {
+        if (worker.site) return false;
+        const built = manifest?.workers.find((w) => w.name === worker.name);
+        return !built || built.inputs.some((input) => changed.has(input));
+      })
+      .map((worker) => worker.name);
+  }
 
-      await build(config, { stage, rootDir, lumierDir, silent: true });
+  async function rebuild(files: string[]): Promise<void> {
+    if (files.some((file) => file.endsWith(".sql"))) {
+      await prepareLocalData(config, rootDir, persistDir, stores);
+    }
 
-      const filteredWorkers = options.worker ? config.workers.filter((w) => w.name === options.worker) : config.workers;
-      const updatedCrons = buildCronsByWorker(config);
+    // Site sources need a full build; other files only rebuild the workers bundling them
+    const siteChanged = files.some(isSiteSource);
+    const only = siteChanged ? undefined : affectedWorkers(files);
+    if (only?.length === 0) return;
+
+    log("~ rebuild", describeChanges(files, rootDir));
+    const previous = new Map(manifest?.workers.map((worker) => [worker.name, worker.contentHash]));
+    manifest = await build(config, { stage, rootDir, lumierDir, silent: true, dev: true, cache: buildCache, only });
+
+    const updated = manifest.workers
+      .filter((worker) => previous.get(worker.name) !== worker.contentHash)
+      .map((worker) => worker.name);
+    if (updated.length === 0) {
+      if (!siteChanged) log("~ reload", "Bundles unchanged");
+      return;
+    }
 
-      // Check if workers changed
-      const currentNames = new Set(globalInstances.map((i) => i.name));
-      const newNames = new Set(filteredWorkers.map((w) => w.name));
-      const addedWorkers = filteredWorkers.filter((w) => !currentNames.has(w.name));
-      const removedWorkers = globalInstances.filter((i) => !newNames.has(i.name));
+    // Only the changed workers were rebuilt, but they can't be reloaded alone yet: all workers
+    // share one runtime and setOptions restarts all of it, so every worker restarts
+    await mf.setOptions(buildMiniflareOptions(context));
+    log("+ reload", `${updated.join(", ")} changed, all workers restarted`);
+  }
 
-      if (addedWorkers.length > 0 || removedWorkers.length > 0) {
-        // Dispose all and restart
-        for (const instance of globalInstances) {
-          await instance.mf.dispose();
-        }
-        globalInstances = [];
+  async function reloadConfig(): Promise<void> {
+    log("~ config", "lumier.config changed");
 
-        console.log(`\n${colors.dim}${"─".repeat(50)}${colors.reset}\n`);
-        log("~ restart", "Workers changed, restarting...");
+    config = await loadConfig();
+    const result = await generateAll(config, rootDir, lumierDir, { force: true });
 
-        // Rebuild port map
-        const newPortMap = new Map<string, number>();
-        let nextPort = basePort;
-        for (const worker of filteredWorkers) {
-          newPortMap.set(worker.name, nextPort++);
-        }
+    if (result.generated.length > 0) {
+      log("+ types", result.generated.join(", "));
+    }
 
-        // Start new instances
-        for (const worker of filteredWorkers) {
-          const port = newPortMap.get(worker.name)!;
-          const mfConfig = buildMiniflareConfig(
-            worker,
-            config,
-            buildDir,
-            persistDir,
-            port,
-            stage,
-            updatedCrons,
-            newPortMap
-          );
-          const mf = new Miniflare(mfConfig);
-          await mf.ready;
-          globalInstances.push({ name: worker.name, port, mf });
-        }
+    manifest = await build(config, { stage, rootDir, lumierDir, silent: true, dev: true, cache: buildCache });
 
-        console.log("");
-        for (const instance of globalInstances) {
-          log(`+ ${instance.name}`, `http://localhost:${instance.port}`);
-        }
-        console.log("");
-      } else {
-        // Update existing workers
-        for (const instance of globalInstances) {
-          const worker = filteredWorkers.find((w) => w.name === instance.name);
-          if (!worker) continue;
-
-          const mfConfig = buildMiniflareConfig(
-            worker,
-            config,
-            buildDir,
-            persistDir,
-            instance.port,
-            stage,
-            updatedCrons,
-            workerPortMap
-          );
-          await instance.mf.setOptions(mfConfig);
-        }
+    const previousNames = context.workers.map((w) => w.name).join(",");
+    context = createContext();
+    await mf.setOptions(buildMiniflareOptions(context));
+    await prepareLocalData(config, rootDir, persistDir, stores);
+    await syncDevServers(context);
 
-        log("+ reload", "Config updated");
-      }
-    } catch (err) {
-      if (err instanceof LumierError) {
-        log("x error", err.message);
-      } else {
-        log("x error", String(err));
+    // Ports follow worker order, so print them again when the workers change
+    if (context.workers.map((w) => w.name).join(",") !== previousNames) {
+      log("+ reload", "Workers changed");
+      printWorkerUrls(context);
+      console.log("");
+    } else {
+      log("+ reload", "Config updated");
+    }
+  }
+
+  const configPath = path.join(rootDir, "lumier.config.ts");
+  const pendingChanges = new Set<string>();
+  let isRebuilding = false;
+
+  // One rebuild at a time. Files that change meanwhile are handled together
+  // once it finishes; a config change rebuilds everything.
+  async function handleChange(filepath: string): Promise<void> {
+    pendingChanges.add(filepath);
+    if (isRebuilding) return;
+
+    isRebuilding = true;
+    while (pendingChanges.size > 0) {
+      const files = [...pendingChanges];
+      pendingChanges.clear();
+      try {
+        await (files.includes(configPath) ? reloadConfig() : rebuild(files));
+      } catch (err) {
+        if (err instanceof LumierError) {
+          log("x error", err.message);
+        } else {
+          log("x error", String(err));
+        }
       }
     }
     isRebuilding = false;
+  }
+
+  globalWatcher?.on("all", (event, filepath) => {
+    if (!(event === "add" || event === "change" || event === "unlink") || isSSRSiteFile(filepath)) return;
+
+    if (isAssetFile(filepath)) {
+      scheduleAssetsReload();
+    } else if (isSiteSource(filepath) || WATCHED_EXTENSIONS.has(path.extname(filepath))) {
+      handleChange(filepath);
+    }
   });
 
+  // Watch config file separately for type regeneration
+  globalConfigWatcher = chokidar.watch(configPath, {
+    ignoreInitial: true,
+    usePolling: true,
+    interval: 300,
+  });
+
+  globalConfigWatcher?.on("change", () => handleChange(configPath));
+
   // Keep the process alive
   // biome-ignore lint/suspicious/noEmptyBlockStatements: intentional
   await new Promise(() => {});
@@ -0,0 +1,35 @@
+/**
+ * Resource Graph Export
+ *
+ * `lumier graph [--format mermaid|dot|json]` prints how the app's resources
+ * depend on each other, for architecture reviews.
+ */
+
+import type { ResourceRegistry } from "../../sdk/index.js";
+import { colors } from "../lib/constants.js";
+import { buildGraph, findCycles, formatGraph, GRAPH_FORMATS, type GraphFormat } from "../lib/graph.js";
+import { LumierError } from "../lib/utils.js";
+
+export interface GraphOptions {
+  format?: string;
+  loadConfig: () => Promise<ResourceRegistry>;
+}
+
+export async function graph(options: GraphOptions): Promise<void> {
+  const format = (options.format ?? "mermaid") as GraphFormat;
+  if (!GRAPH_FORMATS.includes(format)) {
+    throw new LumierError(
+      `Unknown graph format: ${options.format}`,
+      "INVALID_ARGS",
+      `Use one of: ${GRAPH_FORMATS.join(", ")}`
+    );
+  }
+
+  const resourceGraph = buildGraph(await options.loadConfig());
+  console.log(formatGraph(resourceGraph, format));
+
+  // Warnings go to stderr so the graph can be piped to a file
+  for (const cycle of findCycles(resourceGraph)) {
+    console.error(`${colors.yellow}Warning: dependency cycle ${cycle.join(" -> ")}${colors.reset}`);
+  }
+}
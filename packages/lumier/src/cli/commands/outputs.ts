@@ -0,0 +1,64 @@
+/**
+ * Stack Outputs
+ *
+ * `lumier outputs [key]` prints the values returned from `run()` as of the
+ * last deploy of a stage.
+ */
+
+import { colors } from "../lib/constants.js";
+import { readOutputs } from "../lib/outputs.js";
+import { LumierError } from "../lib/utils.js";
+
+export interface OutputsOptions {
+  stage: string;
+  lumierDir: string;
+  key?: string;
+  json?: boolean;
+}
+
+function formatValue(value: unknown, json: boolean): string {
+  if (!json && typeof value === "string") return value;
+  return JSON.stringify(value, null, json ? 2 : undefined);
+}
+
+export async function outputs(options: OutputsOptions): Promise<void> {
+  const { stage, lumierDir, key, json = false } = options;
+
+  const stored = await readOutputs(lumierDir, stage);
+  if (!stored) {
+    throw new LumierError(
+      `No outputs for stage "${stage}"`,
+      "NOT_DEPLOYED",
+      `Deploy the stage first: lumier deploy --stage ${stage}`
+    );
+  }
+
+  if (key) {
+    if (!(key in stored.outputs)) {
+      const available = Object.keys(stored.outputs);
+      throw new LumierError(
+        `Output "${key}" not found for stage "${stage}"`,
+        "OUTPUT_NOT_FOUND",
+        available.length > 0 ? `Available outputs: ${available.join(", ")}` : "run() did not return any outputs"
+      );
+    }
+    console.log(formatValue(stored.outputs[key], json));
+    return;
+  }
+
+  if (json) {
+    console.log(formatValue(stored.outputs, true));
+    return;
+  }
+
+  const entries = Object.entries(stored.outputs);
+  if (entries.length === 0) {
+    console.log(`${colors.dim}No outputs for stage "${stage}"${colors.reset}`);
+    return;
+  }
+
+  for (const [name, value] of entries) {
+    console.log(`${colors.cyan}${name}${colors.reset}: ${formatValue(value, false)}`);
+  }
+  console.log(`\n${colors.dim}Deployed ${stored.deployedAt}${colors.reset}`);
+}
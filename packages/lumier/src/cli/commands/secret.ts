@@ -0,0 +1,183 @@
+/**
+ * Secret Management
+ *
+ * `lumier secret set|get|list|remove|load` for the encrypted per-stage store.
+ */
+
+import * as fs from "node:fs/promises";
+import { colors } from "../lib/constants.js";
+import { parseDotenv, readSecrets, writeSecrets } from "../lib/secrets.js";
+import { LumierError, log, validateSecretKey } from "../lib/utils.js";
+
+export interface SecretOptions {
+  stage: string;
+  lumierDir: string;
+  action?: string;
+  args: string[];
+}
+
+const USAGE = `Usage:
+  lumier secret set <NAME> [value]   Set a secret (reads stdin when value is omitted)
+  lumier secret get <NAME>           Print a secret value
+  lumier secret list                 List secret names
+  lumier secret remove <NAME>        Remove a secret
+  lumier secret load [file]          Load secrets from a dotenv file (or stdin)`;
+
+const TRAILING_NEWLINE_REGEX = /\r?\n$/;
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+const CTRL_C = "\u0003";
+const CTRL_D = "\u0004";
+const BACKSPACES = new Set(["\b", "\u007f"]);
+
+/** The answer after typing `char`, echoed as `*` */
+function typeMasked(answer: string, char: string): string {
+  if (!BACKSPACES.has(char)) {
+    process.stdout.write("*");
+    return answer + char;
+  }
+  if (answer.length > 0) process.stdout.write("\b \b");
+  return answer.slice(0, -1);
+}
+
+/**
+ * Read a line from the terminal with echo off, printing `*` per character
+ */
+function promptSecret(message: string): Promise<string> {
+  const { stdin, stdout } = process;
+  stdout.write(message);
+  stdin.setRawMode(true);
+  stdin.setEncoding("utf-8");
+  stdin.resume();
+
+  return new Promise((resolve, reject) => {
+    let answer = "";
+
+    const finish = (error?: LumierError) => {
+      stdin.off("data", onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      stdout.write("\n");
+      if (error) reject(error);
+      else resolve(answer);
+    };
+
+    // Pasted text arrives as one chunk
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        if (char === "\r" || char === "\n" || char === CTRL_D) return finish();
+        if (char === CTRL_C) return finish(new LumierError("Cancelled", "CANCELLED"));
+        answer = typeMasked(answer, char);
+      }
+    };
+
+    stdin.on("data", onData);
+  });
+}
+
+async function readValue(name: string, value: string | undefined): Promise<string> {
+  if (value !== undefined) return value;
+  if (!process.stdin.isTTY) return (await readStdin()).replace(TRAILING_NEWLINE_REGEX, "");
+  return await promptSecret(`Value for ${name}: `);
+}
+
+function requireName(name: string | undefined): string {
+  if (!name) {
+    throw new LumierError("Missing secret name", "INVALID_ARGS", USAGE);
+  }
+  validateSecretKey(name);
+  return name;
+}
+
+export async function secret(options: SecretOptions): Promise<void> {
+  const { stage, lumierDir, action, args } = options;
+
+  switch (action) {
+    case "set": {
+      const name = requireName(args[0]);
+      const value = await readValue(name, args[1]);
+
+      const secrets = await readSecrets(lumierDir, stage);
+      secrets[name] = value;
+      await writeSecrets(lumierDir, stage, secrets);
+
+      log("+ secret", `${name} set for stage "${stage}"`);
+      break;
+    }
+    case "get": {
+      const name = requireName(args[0]);
+      const secrets = await readSecrets(lumierDir, stage);
+
+      if (!(name in secrets)) {
+        throw new LumierError(`Secret "${name}" is not set for stage "${stage}"`, "SECRET_NOT_FOUND");
+      }
+      console.log(secrets[name]);
+      break;
+    }
+    case "list": {
+      const names = Object.keys(await readSecrets(lumierDir, stage)).sort();
+
+      if (names.length === 0) {
+        console.log(`${colors.dim}No secrets set for stage "${stage}"${colors.reset}`);
+        break;
+      }
+      for (const name of names) {
+        console.log(`  ${name}`);
+      }
+      break;
+    }
+    case "remove": {
+      const name = requireName(args[0]);
+      const secrets = await readSecrets(lumierDir, stage);
+
+      if (!(name in secrets)) {
+        throw new LumierError(`Secret "${name}" is not set for stage "${stage}"`, "SECRET_NOT_FOUND");
+      }
+      delete secrets[name];
+      await writeSecrets(lumierDir, stage, secrets);
+
+      log("- secret", `${name} removed from stage "${stage}"`);
+      break;
+    }
+    case "load": {
+      const file = args[0];
+      let content: string;
+      if (file) {
+        try {
+          content = await fs.readFile(file, "utf-8");
+        } catch {
+          throw new LumierError(`Cannot read ${file}`, "FILE_NOT_FOUND");
+        }
+      } else if (process.stdin.isTTY) {
+        throw new LumierError("Missing dotenv file", "INVALID_ARGS", USAGE);
+      } else {
+        content = await readStdin();
+      }
+
+      const loaded = parseDotenv(content);
+      for (const name of Object.keys(loaded)) {
+        validateSecretKey(name);
+      }
+
+      const secrets = await readSecrets(lumierDir, stage);
+      await writeSecrets(lumierDir, stage, { ...secrets, ...loaded });
+
+      log("+ secret", `${Object.keys(loaded).length} secrets loaded for stage "${stage}"`);
+      break;
+    }
+    default: {
+      throw new LumierError(
+        action ? `Unknown secret command: ${action}` : "Missing secret command",
+        "INVALID_ARGS",
+        USAGE
+      );
+    }
+  }
+}
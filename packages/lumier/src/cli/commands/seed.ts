@@ -0,0 +1,46 @@
+/**
+ * Local Seed Data
+ *
+ * `lumier seed` applies the `seed` options of D1, KV and Bucket resources to
+ * the local stores `lumier dev` uses, whether or not they were seeded before.
+ * D1 migrations run first, so seeds can rely on the schema.
+ */
+
+import type { ResourceRegistry } from "../../sdk/index.js";
+import { colors } from "../lib/constants.js";
+import { migrateLocalDatabases } from "../lib/d1.js";
+import { withLocalStores } from "../lib/local-stores.js";
+import { getPersistDir } from "../lib/persist.js";
+import { hasSeeds, seedLocalStores } from "../lib/seed.js";
+import { log } from "../lib/utils.js";
+
+export interface SeedCommandOptions {
+  stage: string;
+  rootDir: string;
+  lumierDir: string;
+  loadConfig: () => Promise<ResourceRegistry>;
+}
+
+export async function seed(options: SeedCommandOptions): Promise<void> {
+  const { stage, rootDir, lumierDir } = options;
+  const config = await options.loadConfig();
+
+  if (!hasSeeds(config)) {
+    console.log(`${colors.dim}No resources have a seed option${colors.reset}`);
+    return;
+  }
+
+  const persistDir = getPersistDir(lumierDir, stage);
+  await withLocalStores(config, { stage, persistDir, command: "seed" }, async (stores) => {
+    await migrateLocalDatabases(config, rootDir, stores, (name, migration) => {
+      log(`+ ${name}`, `Migrated ${migration.name}`);
+    });
+    await seedLocalStores(config, {
+      rootDir,
+      persistDir,
+      stores,
+      force: true,
+      onSeeded: (resource) => log("+ seed", resource),
+    });
+  });
+}
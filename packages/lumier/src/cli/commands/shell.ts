@@ -0,0 +1,204 @@
+/**
+ * Stage Shell
+ *
+ * `lumier shell -- <cmd>` runs a command with the deployed identifiers of a
+ * stage's resources and its decrypted secrets as environment variables:
+ * - LUMIER_KV_<NAME>, LUMIER_D1_<NAME>, LUMIER_HYPERDRIVE_<NAME>: IDs
+ * - LUMIER_BUCKET_<NAME>, LUMIER_QUEUE_<NAME>, LUMIER_VECTORIZE_<NAME>: names
+ * - LUMIER_WORKER_<NAME>: URL (custom domain or workers.dev)
+ * - LUMIER_SECRET_<NAME>: secret values
+ *
+ * A stage that has not been deployed gets the values `lumier dev` uses instead.
+ */
+
+import { spawn } from "node:child_process";
+import { constants } from "node:os";
+import type { ResourceRegistry } from "../../sdk/index.js";
+import { colors, DEFAULT_DEV_PORT } from "../lib/constants.js";
+import { nameFromUrn } from "../lib/plan.js";
+import { selectStack } from "../lib/pulumi.js";
+import { readSecrets } from "../lib/secrets.js";
+import { LumierError, log } from "../lib/utils.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ShellOptions {
+  stage: string;
+  lumierDir: string;
+  /** Command and arguments; an interactive $SHELL when empty */
+  command: string[];
+  loadConfig: () => Promise<ResourceRegistry>;
+}
+
+interface StateResource {
+  urn: string;
+  type: string;
+  id?: string;
+  outputs?: Record<string, unknown>;
+}
+
+interface ResourceIdentifier {
+  /** TYPE segment of the variable name */
+  type: string;
+  value: (resource: StateResource) => unknown;
+}
+
+// ============================================================================
+// Resource Identifiers
+// ============================================================================
+
+const CUSTOM_DOMAIN_TYPE = "cloudflare:index/workersCustomDomain:WorkersCustomDomain";
+
+const RESOURCE_IDENTIFIERS: Record<string, ResourceIdentifier> = {
+  "cloudflare:index/r2Bucket:R2Bucket": { type: "BUCKET", value: (r) => r.outputs?.name },
+  "cloudflare:index/workersKvNamespace:WorkersKvNamespace": { type: "KV", value: (r) => r.id },
+  "cloudflare:index/d1Database:D1Database": { type: "D1", value: (r) => r.id },
+  "cloudflare:index/queue:Queue": { type: "QUEUE", value: (r) => r.outputs?.queueName },
+  "cloudflare:index/hyperdriveConfig:HyperdriveConfig": { type: "HYPERDRIVE", value: (r) => r.id },
+  "pulumi-nodejs:dynamic/lumier:VectorizeIndex": { type: "VECTORIZE", value: (r) => r.outputs?.indexName },
+  "cloudflare:index/worker:Worker": {
+    type: "WORKER",
+    value: (r) => {
+      // The URL is reported even when the workers.dev route is disabled
+      const subdomain = r.outputs?.subdomain as { enabled?: boolean; url?: string } | undefined;
+      if (!(subdomain?.enabled && subdomain.url)) return undefined;
+      return subdomain.url.startsWith("http") ? subdomain.url : `https://${subdomain.url}`;
+    },
+  },
+  [CUSTOM_DOMAIN_TYPE]: {
+    type: "WORKER",
+    value: (r) => (r.outputs?.hostname ? `https://${r.outputs.hostname}` : undefined),
+  },
+};
+
+function toEnvName(type: string, name: string): string {
+  return `LUMIER_${type}_${name.toUpperCase().replaceAll("-", "_")}`;
+}
+
+/**
+ * Map every deployed resource of a stage to its LUMIER_<TYPE>_<NAME> variable
+ */
+function collectResourceVariables(resources: StateResource[]): Record<string, string> {
+  const variables: Record<string, string> = {};
+
+  for (const resource of resources) {
+    const identifier = RESOURCE_IDENTIFIERS[resource.type];
+    const value = identifier?.value(resource);
+    if (!(identifier && typeof value === "string")) continue;
+
+    // Logical names are "<kind>-<name>" (see lib/pulumi.ts)
+    const logicalName = nameFromUrn(resource.urn);
+    const key = toEnvName(identifier.type, logicalName.slice(logicalName.indexOf("-") + 1));
+
+    // Custom domains take precedence over workers.dev URLs
+    if (resource.type === CUSTOM_DOMAIN_TYPE || !(key in variables)) {
+      variables[key] = value;
+    }
+  }
+
+  return variables;
+}
+
+/**
+ * Map every resource of the config to the variable `lumier dev` would give it
+ */
+function collectLocalVariables(config: ResourceRegistry): Record<string, string> {
+  const variables: Record<string, string> = {};
+
+  for (const { name } of config.kvs) variables[toEnvName("KV", name)] = `kv-${name}`;
+  for (const { name } of config.d1s) variables[toEnvName("D1", name)] = `d1-${name}`;
+  for (const { name } of config.buckets) variables[toEnvName("BUCKET", name)] = name;
+  for (const { name } of config.queues) variables[toEnvName("QUEUE", name)] = name;
+  for (const { name } of config.workers) {
+    variables[toEnvName("WORKER", name)] = `http://${name}.localhost:${DEFAULT_DEV_PORT}`;
+  }
+
+  return variables;
+}
+
+/**
+ * Variables of the stage's deployed resources, or of its local ones before the first deploy
+ */
+async function collectStageVariables(
+  config: ResourceRegistry,
+  options: Pick<ShellOptions, "stage" | "lumierDir">
+): Promise<Record<string, string>> {
+  const { stage, lumierDir } = options;
+  try {
+    const stack = await selectStack(config, { stage, lumierDir });
+    const state = await stack.exportStack();
+    return collectResourceVariables(state.deployment?.resources ?? []);
+  } catch (error) {
+    if (!(error instanceof LumierError && error.code === "NOT_DEPLOYED")) throw error;
+    console.warn(
+      `${colors.yellow}Warning: Stage "${stage}" has not been deployed - using the values of lumier dev${colors.reset}`
+    );
+    return collectLocalVariables(config);
+  }
+}
+
+// ============================================================================
+// Shell
+// ============================================================================
+
+/**
+ * Run a command with the stage's environment, resolving to its exit code
+ */
+export async function shell(options: ShellOptions): Promise<number> {
+  const { stage, lumierDir, loadConfig } = options;
+
+  const config = await loadConfig();
+  const secrets = await readSecrets(lumierDir, stage);
+
+  const variables: Record<string, string> = {
+    LUMIER_APP: config.app.name,
+    LUMIER_STAGE: stage,
+    ...(await collectStageVariables(config, options)),
+  };
+  for (const [name, value] of Object.entries(secrets)) {
+    variables[toEnvName("SECRET", name)] = value;
+  }
+
+  const [command, ...args] = options.command.length > 0 ? options.command : [process.env.SHELL ?? "sh"];
+  if (options.command.length === 0) {
+    log("->  shell", `${config.app.name} (${stage})`);
+    for (const name of Object.keys(variables).sort()) {
+      console.log(`  ${colors.dim}${name}${colors.reset}`);
+    }
+    console.log("");
+  }
+
+  return await new Promise((resolve, reject) => {
+    const child = spawn(command!, args, {
+      stdio: "inherit",
+      env: { ...process.env, ...variables },
+    });
+
+    // The terminal sends Ctrl+C to the child as well; a SIGTERM sent to lumier
+    // is passed on. Either way the child decides when the command ends.
+    const ignoreInterrupt = () => undefined;
+    const forwardTerminate = () => child.kill("SIGTERM");
+    process.on("SIGINT", ignoreInterrupt);
+    process.on("SIGTERM", forwardTerminate);
+    const restoreSignals = () => {
+      process.off("SIGINT", ignoreInterrupt);
+      process.off("SIGTERM", forwardTerminate);
+    };
+
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      restoreSignals();
+      reject(
+        error.code === "ENOENT"
+          ? new LumierError(`Command not found: ${command}`, "COMMAND_NOT_FOUND")
+          : new LumierError(`Failed to run ${command}: ${error.message}`, "COMMAND_FAILED")
+      );
+    });
+    child.on("exit", (code, signal) => {
+      restoreSignals();
+      // Shells report a command killed by a signal as 128 + its number
+      resolve(code ?? (signal ? 128 + constants.signals[signal] : 0));
+    });
+  });
+}
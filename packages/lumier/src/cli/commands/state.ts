@@ -0,0 +1,100 @@
+/**
+ * Local State Commands
+ *
+ * `lumier state list|clear` inspects and deletes the KV, R2, D1 and Durable
+ * Object data `lumier dev` persists for a stage, by resource or by kind.
+ */
+
+import type { ResourceRegistry } from "../../sdk/index.js";
+import { colors } from "../lib/constants.js";
+import {
+  assertPersistUnlocked,
+  clearPersistedState,
+  getPersistDir,
+  isPersistKind,
+  listPersistedState,
+  PERSIST_KINDS,
+  type PersistedResource,
+  type PersistKind,
+} from "../lib/persist.js";
+import { formatBytes, LumierError, log } from "../lib/utils.js";
+
+export interface StateCommandOptions {
+  stage: string;
+  lumierDir: string;
+  action?: string;
+  /** Only data of this resource */
+  resource?: string;
+  /** Only data of this kind (kv, r2, d1, do) */
+  kind?: string;
+  /** Print the listing as JSON */
+  json?: boolean;
+  loadConfig: () => Promise<ResourceRegistry>;
+}
+
+const USAGE = `Usage:
+  lumier state list [--resource <name>] [--kind kv|r2|d1|do]    List local dev data
+  lumier state clear [--resource <name>] [--kind kv|r2|d1|do]   Delete local dev data`;
+
+const UNOWNED_LABEL = "(not in config)";
+
+function parseKind(kind: string | undefined): PersistKind | undefined {
+  if (kind === undefined) return undefined;
+  if (!isPersistKind(kind)) {
+    throw new LumierError(`Unknown kind: "${kind}"`, "INVALID_ARGS", `Use one of: ${PERSIST_KINDS.join(", ")}`);
+  }
+  return kind;
+}
+
+function printState(resources: PersistedResource[], stage: string): void {
+  if (resources.length === 0) {
+    console.log(`${colors.dim}No local data for stage "${stage}"${colors.reset}`);
+    return;
+  }
+
+  const labels = resources.map((entry) => entry.name ?? UNOWNED_LABEL);
+  const width = Math.max(...labels.map((label) => label.length));
+
+  for (const [index, entry] of resources.entries()) {
+    const label = labels[index]!.padEnd(width);
+    const name = entry.name ? label : `${colors.dim}${label}${colors.reset}`;
+    console.log(`  ${colors.dim}${entry.kind.padEnd(2)}${colors.reset}  ${name}  ${formatBytes(entry.size)}`);
+  }
+
+  const total = resources.reduce((sum, entry) => sum + entry.size, 0);
+  console.log(`\n${colors.dim}${formatBytes(total)} in ${resources.length} resources${colors.reset}`);
+}
+
+export async function state(options: StateCommandOptions): Promise<void> {
+  const { stage, lumierDir, action, resource, json = false } = options;
+  const kind = parseKind(options.kind);
+
+  if (action !== "list" && action !== "clear") {
+    throw new LumierError(action ? `Unknown state action: "${action}"` : "Missing state action", "INVALID_ARGS", USAGE);
+  }
+
+  const config = await options.loadConfig();
+  const persistDir = getPersistDir(lumierDir, stage);
+
+  if (action === "list") {
+    const resources = (await listPersistedState(config, persistDir)).filter(
+      (entry) => (!resource || entry.name === resource) && (!kind || entry.kind === kind)
+    );
+    if (json) {
+      console.log(JSON.stringify(resources, null, 2));
+    } else {
+      printState(resources, stage);
+    }
+    return;
+  }
+
+  await assertPersistUnlocked(persistDir, stage);
+  const cleared = await clearPersistedState(config, persistDir, { resource, kind });
+  if (cleared.length === 0) {
+    console.log(`${colors.dim}Nothing to clear for stage "${stage}"${colors.reset}`);
+    return;
+  }
+  for (const entry of cleared) {
+    log(`- ${entry.kind}`, `${entry.name ?? UNOWNED_LABEL} (${formatBytes(entry.size)})`);
+  }
+}
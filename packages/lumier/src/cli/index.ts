@@ -7,6 +7,7 @@ import {
   getRegistry,
   type ResourceRegistry,
   type RuntimeContext,
+  sealRegistry,
 } from "../sdk/index.js";
 import { init } from "./commands/init.js";
 import {
@@ -17,7 +18,17 @@ import {
   PACKAGE_JSON_FILENAME,
   STATE_DIR_NAME,
 } from "./lib/constants.js";
-import { isProduction, LumierError, parsePort, validateStageName } from "./lib/utils.js";
+import { createSecretsProxy, readSecrets } from "./lib/secrets.js";
+import {
+  assertNoLateRegistrations,
+  importPulumiCommand,
+  isProduction,
+  isStageActionAllowed,
+  LumierError,
+  parsePort,
+  type StageAction,
+  validateStageName,
+} from "./lib/utils.js";
 
 const ROOT_DIR = process.cwd();
 const LUMIER_DIR = path.join(ROOT_DIR, STATE_DIR_NAME);
@@ -39,17 +50,25 @@ interface ParseArgsResult {
   command?: string;
   flags: Record<string, string | boolean>;
   positional: Array<string>;
+  /** Arguments after a bare `--`, passed through untouched */
+  rest: Array<string>;
 }
 
 function parseArgs(args: Array<string>) {
   const result: ParseArgsResult = {
     flags: {},
     positional: [],
+    rest: [],
   };
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
 
+    if (arg === "--") {
+      result.rest = args.slice(i + 1);
+      break;
+    }
+
     if (arg?.startsWith("--")) {
       const equalSignIndex = arg.indexOf("=");
 
@@ -107,12 +126,19 @@ async function loadConfig(stage: string): Promise<ResourceRegistry> {
     app: registry.app,
     isDev: !isProduction(stage),
     isProduction: isProduction(stage),
+    secrets: createSecretsProxy(await readSecrets(LUMIER_DIR, stage), stage),
   } satisfies RuntimeContext;
 
-  const outputs = config.run(ctx) ?? {};
+  const outputs = (await config.run(ctx)) ?? {};
+  sealRegistry();
 
   registry.outputs = outputs;
 
+  // Only registrations already queued when run() resolved (microtasks and
+  // zero-delay timers) are caught here; deploy checks again after its build
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  assertNoLateRegistrations();
+
   verboseLog(
     "Registry:",
     registry.workers.length,
@@ -133,17 +159,27 @@ function printHelp(): void {
 ${colors.bold}Commands:${colors.reset}
   init              Initialize a new project
   dev               Start dev server with hot reload using Miniflare
+                    (--reseed applies seed data again,
+                    --reset starts from empty local data)
   deploy            Build and deploy to Cloudflare
   deploy --preview  Preview changes without deploying
+                    (--expect-no-changes exits non-zero on drift)
   destroy           Destroy resources
   secret            Manage encrypted secrets
-  shell             Get environment with resource IDs
+  d1                Run D1 migrations (migrate, status, create)
+                    and queries (execute, shell)
+  seed              Apply seed data to the local D1, KV and R2 stores
+  state             List or clear local dev data (list, clear)
+  outputs [key]     Show outputs from the last deploy (--json)
+  graph             Print the resource graph (--format mermaid|dot|json)
+  shell -- <cmd>    Run a command with resource IDs and secrets
+                    as LUMIER_<TYPE>_<NAME> variables
   version           Show version
 `);
 }
 
-function checkStageProtection(app: { protect?: string[] }, stage: string, action: string): boolean {
-  if (!app.protect?.includes(stage)) return true;
+function checkStageProtection(app: { protect?: string[] }, stage: string, action: StageAction): boolean {
+  if (isStageActionAllowed(app, stage, action)) return true;
 
   console.error(
     `\n${colors.red}Error:${colors.reset} Cannot ${action} the "${stage}" stage because it is protected.\n`
@@ -154,10 +190,16 @@ function checkStageProtection(app: { protect?: string[] }, stage: string, action
   return false;
 }
 
+const SCRIPTABLE_COMMANDS = new Set(["outputs", "shell", "graph"]);
+
+// biome-ignore lint/complexity/noExcessiveCognitiveComplexity: command dispatch
 async function main(args: Array<string>): Promise<void> {
-  const { command, flags } = parseArgs(args);
+  const { command, flags, positional, rest } = parseArgs(args);
 
-  console.log(`${colors.bold}${colors.cyan}Lumier${colors.reset} - Infrastructure as Code for Cloudflare`);
+  // Keep stdout clean for commands whose output is consumed by scripts
+  if (!((command && SCRIPTABLE_COMMANDS.has(command)) || flags.json)) {
+    console.log(`${colors.bold}${colors.cyan}Lumier${colors.reset} - Infrastructure as Code for Cloudflare`);
+  }
 
   verbose = Boolean(flags.verbose) || process.env.DEBUG === "1";
 
@@ -195,6 +237,8 @@ async function main(args: Array<string>): Promise<void> {
           port,
           rootDir: ROOT_DIR,
           lumierDir: LUMIER_DIR,
+          reseed: Boolean(flags.reseed),
+          reset: Boolean(flags.reset),
           loadConfig: () => loadConfig(stage),
         });
 
@@ -202,14 +246,140 @@ async function main(args: Array<string>): Promise<void> {
       }
       case "deploy": {
         const config = await loadConfig(stage);
-        if (!checkStageProtection(config.app, stage, "deploy")) process.exit(1);
+        if (!checkStageProtection(config.app, stage, flags.preview ? "preview" : "deploy")) process.exit(1);
+
+        const { deploy, preview } = await importPulumiCommand(() => import("./commands/deploy.js"));
+        const deployOptions = {
+          stage,
+          rootDir: ROOT_DIR,
+          lumierDir: LUMIER_DIR,
+          verbose,
+          config,
+        };
+
+        if (flags.preview) {
+          const { hasChanges } = await import("./lib/plan.js");
+          const plan = await preview(deployOptions);
+
+          if (flags["expect-no-changes"] && hasChanges(plan)) {
+            console.error(`${colors.red}Error:${colors.reset} Changes detected but --expect-no-changes was set\n`);
+            process.exit(1);
+          }
+        } else {
+          await deploy(deployOptions);
+        }
+
+        break;
+      }
+      case "destroy": {
+        const config = await loadConfig(stage);
+        if (!checkStageProtection(config.app, stage, "destroy")) process.exit(1);
+
+        const { destroy } = await importPulumiCommand(() => import("./commands/destroy.js"));
+
+        await destroy({
+          stage,
+          lumierDir: LUMIER_DIR,
+          verbose,
+          config,
+        });
 
-        // Generate types before build
-        const { generateTypes } = await import("./lib/codegen.js");
-        await generateTypes(config, ROOT_DIR);
+        break;
+      }
+      case "secret": {
+        const { secret } = await import("./commands/secret.js");
 
-        const { build } = await import("./lib/build.js");
-        await build(config, { stage, rootDir: ROOT_DIR, lumierDir: LUMIER_DIR });
+        await secret({
+          stage,
+          lumierDir: LUMIER_DIR,
+          action: positional[0],
+          args: positional.slice(1),
+        });
+
+        break;
+      }
+      case "d1": {
+        const { d1 } = await import("./commands/d1.js");
+
+        await d1({
+          stage,
+          rootDir: ROOT_DIR,
+          lumierDir: LUMIER_DIR,
+          action: positional[0],
+          args: positional.slice(1),
+          database: typeof flags.database === "string" ? flags.database : undefined,
+          remote: Boolean(flags.remote),
+          local: Boolean(flags.local),
+          command: typeof flags.command === "string" ? flags.command : undefined,
+          file: typeof flags.file === "string" ? flags.file : undefined,
+          json: Boolean(flags.json),
+          loadConfig: () => loadConfig(stage),
+        });
+
+        break;
+      }
+      case "seed": {
+        const { seed } = await import("./commands/seed.js");
+
+        await seed({
+          stage,
+          rootDir: ROOT_DIR,
+          lumierDir: LUMIER_DIR,
+          loadConfig: () => loadConfig(stage),
+        });
+
+        break;
+      }
+      case "state": {
+        const { state } = await import("./commands/state.js");
+
+        await state({
+          stage,
+          lumierDir: LUMIER_DIR,
+          action: positional[0],
+          resource: typeof flags.resource === "string" ? flags.resource : undefined,
+          kind: typeof flags.kind === "string" ? flags.kind : undefined,
+          json: Boolean(flags.json),
+          loadConfig: () => loadConfig(stage),
+        });
+
+        break;
+      }
+      case "shell": {
+        const { shell } = await importPulumiCommand(() => import("./commands/shell.js"));
+
+        const code = await shell({
+          stage,
+          lumierDir: LUMIER_DIR,
+          command: rest,
+          loadConfig: () => loadConfig(stage),
+        });
+
+        process.exit(code);
+        break;
+      }
+      case "graph": {
+        const { graph } = await import("./commands/graph.js");
+
+        await graph({
+          format: typeof flags.format === "string" ? flags.format : undefined,
+          loadConfig: () => loadConfig(stage),
+        });
+
+        break;
+      }
+      case "outputs": {
+        const { outputs } = await import("./commands/outputs.js");
+
+        // `--json <key>` parses as a flag value
+        const jsonKey = typeof flags.json === "string" ? flags.json : undefined;
+
+        await outputs({
+          stage,
+          lumierDir: LUMIER_DIR,
+          key: positional[0] ?? jsonKey,
+          json: Boolean(flags.json),
+        });
 
         break;
       }
@@ -225,6 +395,10 @@ async function main(args: Array<string>): Promise<void> {
       }
     }
   } catch (error) {
+    if (error instanceof LumierError) {
+      console.error(`\n${error.format()}\n`);
+      process.exit(1);
+    }
     console.error(`\n${colors.red}Error:${colors.reset} ${error instanceof Error ? error.message : String(error)}\n`);
     process.exit(1);
   }
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { type BindingValue, clearRegistry, getRegistry, KV, Worker } from "../../sdk/index.js";
+import { build } from "./build.js";
+import type { WorkerBuildInfo } from "./types.js";
+
+let rootDir: string;
+
+beforeEach(async () => {
+  rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "lumier-build-"));
+  await writeSource(
+    "src/api.ts",
+    'import { greeting } from "./greeting";\nexport default { fetch: () => new Response(greeting) };\n'
+  );
+  await writeSource("src/greeting.ts", 'export const greeting = "hello";\n');
+
+  clearRegistry();
+  getRegistry().app = { name: "shop", stage: "test" };
+});
+
+afterEach(async () => {
+  await fs.rm(rootDir, { recursive: true, force: true });
+});
+
+async function writeSource(relative: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(path.join(rootDir, relative)), { recursive: true });
+  await fs.writeFile(path.join(rootDir, relative), content);
+}
+
+async function buildApi(): Promise<WorkerBuildInfo> {
+  const manifest = await build(getRegistry(), {
+    stage: "test",
+    rootDir,
+    lumierDir: path.join(rootDir, ".lumier"),
+    silent: true,
+  });
+  return manifest.workers[0]!;
+}
+
+/** Mark the last bundle, so a build that keeps it can be told from one that rewrites it */
+async function markBundle(worker: WorkerBuildInfo): Promise<void> {
+  await fs.appendFile(worker.outputPath, "\n// kept\n");
+}
+
+async function isBundleKept(worker: WorkerBuildInfo): Promise<boolean> {
+  return (await fs.readFile(worker.outputPath, "utf-8")).endsWith("// kept\n");
+}
+
+describe("build", () => {
+  test("records the files a worker was bundled from", async () => {
+    Worker("api", { entry: "src/api.ts" });
+
+    const worker = await buildApi();
+
+    expect(worker.inputs?.sort()).toEqual(["src/api.ts", "src/greeting.ts"]);
+  });
+
+  test("keeps the last bundle when neither its files nor its settings changed", async () => {
+    Worker("api", { entry: "src/api.ts" });
+    const first = await buildApi();
+    await markBundle(first);
+
+    const second = await buildApi();
+
+    expect(second).toEqual(first);
+    expect(await isBundleKept(second)).toBe(true);
+  });
+
+  test("bundles again when an imported file changes", async () => {
+    Worker("api", { entry: "src/api.ts" });
+    const first = await buildApi();
+    await markBundle(first);
+    await writeSource("src/greeting.ts", 'export const greeting = "hi";\n');
+
+    const second = await buildApi();
+
+    expect(second.contentHash).not.toBe(first.contentHash);
+    expect(await isBundleKept(second)).toBe(false);
+  });
+
+  test("bundles again when the worker's bindings change", async () => {
+    const bindings: Record<string, BindingValue> = {};
+    Worker("api", { entry: "src/api.ts", bindings });
+    const first = await buildApi();
+    await markBundle(first);
+    bindings.CACHE = KV("cache");
+
+    const second = await buildApi();
+
+    expect(second.inputHash).not.toBe(first.inputHash);
+    expect(await isBundleKept(second)).toBe(false);
+  });
+
+  test("bundles again when the last bundle was deleted", async () => {
+    Worker("api", { entry: "src/api.ts" });
+    const first = await buildApi();
+    await fs.rm(first.outputPath);
+
+    const second = await buildApi();
+
+    expect(second.inputHash).toBe(first.inputHash);
+    expect(await fs.readFile(second.outputPath, "utf-8")).toContain("hello");
+  });
+});
@@ -1,131 +1,346 @@
 /**
- * Build Workers using Rolldown
+ * Build Workers using Rolldown, then Static Sites with their build commands.
+ * The workers of SSR sites bundle the entry their framework build writes.
+ *
+ * Workers build concurrently. A worker is bundled again only when its build
+ * settings or the files of its last bundle changed, which the build manifest
+ * tracks as an input hash. `lumier dev` also keeps each worker's bundle open
+ * between builds, so rolldown rebuilds it incrementally.
  */
 
+import { createHash } from "node:crypto";
 import * as fs from "node:fs/promises";
 import * as path from "node:path";
-import { rolldown } from "rolldown";
+import { type InputOptions, type OutputOptions, type RolldownBuild, rolldown } from "rolldown";
 import { cloudflare, env, nodeless } from "unenv";
-import type { ResourceRegistry } from "../../sdk/index.js";
-import { DEFAULT_RESOLVE_CONDITIONS } from "./constants.js";
-import type { BuildManifest } from "./types.js";
+import { formatLocation, type ResourceRegistry } from "../../sdk/index.js";
+import { BUILD_DIR_NAME, DEFAULT_ASSETS_BINDING, DEFAULT_RESOLVE_CONDITIONS } from "./constants.js";
+import { isDeletedClass } from "./durable-objects.js";
+import { buildSSRSites, buildStaticSites } from "./sites.js";
+import type { BuildManifest, WorkerBuildInfo } from "./types.js";
 import { formatBytes, LumierError, log } from "./utils.js";
 
 const ENV_ACCESS_PATTERN = /\benv\.(\w+)\b/g;
 
+const BUILD_MANIFEST_FILE = "build-manifest.json";
+
 export interface BuildContext {
   stage: string;
   minify?: boolean;
   rootDir: string;
   lumierDir: string;
   silent?: boolean;
+  /** Leave out the workers of SSR sites, which `lumier dev` serves from their framework's dev server */
+  dev?: boolean;
+  /** Bundles kept open between the builds of a dev session */
+  cache?: BuildCache;
+  /**
+   * Only bundle these workers. The others and the sites keep their last
+   * build, except workers the manifest has no bundle of yet.
+   */
+  only?: string[];
+}
+
+/** Open bundle of each worker, reused while the worker's build settings stay the same */
+export interface BuildCache {
+  bundles: Map<string, { settings: string; bundle: RolldownBuild }>;
+}
+
+type RegisteredWorker = ResourceRegistry["workers"][number];
+
+interface WorkerBundleOptions {
+  input: InputOptions;
+  output: OutputOptions;
+  /** What the bundle and its checks depend on besides the module graph */
+  settings: string;
 }
 
 const cloudflareExternalsRegex = /^cloudflare:/;
 
+export function createBuildCache(): BuildCache {
+  return { bundles: new Map() };
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+/**
+ * Check that a worker's bundle exports the class of every DurableObject it
+ * hosts, unless a migration deleted the class
+ */
+function assertDurableObjectExports(config: ResourceRegistry, workerName: string, exports: string[]): void {
+  for (const { name, options, location } of config.durableObjects) {
+    if (options.worker.name !== workerName || isDeletedClass(options) || exports.includes(options.className)) continue;
+    throw new LumierError(
+      `DurableObject "${name}" uses class "${options.className}", which Worker "${workerName}" does not export\n` +
+        `Export the class from the worker's entry, or fix className in ${location ? formatLocation(location) : "lumier.config.ts"}`,
+      "MISSING_EXPORT"
+    );
+  }
+}
+
+function configuredBindings(worker: RegisteredWorker): Set<string> {
+  const bindings = new Set(Object.keys(worker.options.bindings ?? {}));
+  if (worker.options.assets) bindings.add(worker.options.assets.binding ?? DEFAULT_ASSETS_BINDING);
+  return bindings;
+}
+
+/**
+ * Check that every `env.*` access in a worker's bundle has a binding. Framework
+ * output reads its own variables, so only user code is checked.
+ */
+function assertBindingsConfigured(worker: RegisteredWorker, bundledCode: string): void {
+  if (worker.site) return;
+
+  const configured = configuredBindings(worker);
+  const usedBindings = new Set<string>();
+
+  let match: RegExpExecArray | null;
+  while ((match = ENV_ACCESS_PATTERN.exec(bundledCode)) !== null) {
+    usedBindings.add(match[1]!);
+  }
+
+  const missingBindings = [...usedBindings].filter((binding) => !configured.has(binding));
+  if (missingBindings.length > 0) {
+    throw new LumierError(
+      `Worker "${worker.name}" uses bindings that are not configured: ${missingBindings.join(", ")}\n` +
+        `Add them to the worker's bindings in ${worker.location ? formatLocation(worker.location) : "lumier.config.ts"}`,
+      "MISSING_BINDINGS"
+    );
+  }
+}
+
+// ============================================================================
+// Bundling
+// ============================================================================
+
+function bundleOptions(config: ResourceRegistry, worker: RegisteredWorker, options: BuildContext): WorkerBundleOptions {
+  const { name, options: workerOpts } = worker;
+  const isProd = options.minify ?? options.stage === "production";
+  const buildOpts = workerOpts.build ?? {};
+  const conditions = buildOpts.conditions ?? DEFAULT_RESOLVE_CONDITIONS;
+
+  const hasNodeCompat = workerOpts.compatibilityFlags?.includes("nodejs_compat") ?? false;
+  const nodePolyfills = hasNodeCompat ? env(nodeless, cloudflare, {}) : null;
+
+  const nodeEnvReplacement = JSON.stringify(isProd ? "production" : "development");
+
+  // Cloudflare runtime modules should never be bundled
+  const cloudflareExternals = [cloudflareExternalsRegex];
+  const userExternals = buildOpts.external ?? [];
+  const external = [...cloudflareExternals, ...userExternals];
+
+  const input: InputOptions = {
+    input: path.join(options.rootDir, workerOpts.entry),
+    platform: "browser",
+    resolve: {
+      conditionNames: conditions,
+      alias: nodePolyfills?.alias,
+    },
+    external,
+    transform: {
+      define: {
+        "process.env.NODE_ENV": nodeEnvReplacement,
+        "global.process.env.NODE_ENV": nodeEnvReplacement,
+        "globalThis.process.env.NODE_ENV": nodeEnvReplacement,
+        ...buildOpts.define,
+      },
+      target: "es2024",
+    },
+    experimental: { incrementalBuild: options.cache !== undefined },
+  };
+
+  const output: OutputOptions = {
+    cleanDir: true,
+    file: path.join(options.lumierDir, BUILD_DIR_NAME, name, `${name}.js`),
+    format: "esm",
+    keepNames: true,
+    minify: buildOpts.minify ?? isProd,
+    banner: buildOpts.banner,
+    footer: buildOpts.footer,
+    sourcemap: buildOpts.sourcemap ?? true,
+  };
+
+  // Bindings and hosted classes are checked against the bundle, so changing them builds it again
+  const hostedClasses = config.durableObjects
+    .filter((durableObject) => durableObject.options.worker.name === name)
+    .map(({ options: doOpts }) => [doOpts.className, isDeletedClass(doOpts)]);
+  const settings = JSON.stringify({
+    entry: workerOpts.entry,
+    conditions,
+    hasNodeCompat,
+    external: external.map(String),
+    define: input.transform?.define,
+    output: { ...output, file: undefined },
+    bindings: [...configuredBindings(worker)].sort(),
+    hostedClasses,
+  });
+
+  return { input, output, settings };
+}
+
+/**
+ * Hash of a worker's build settings and input files, or undefined when one of
+ * the files no longer exists
+ */
+async function hashInputs(settings: string, inputs: string[], rootDir: string): Promise<string | undefined> {
+  const hash = createHash("sha256").update(settings);
+
+  for (const file of [...inputs].sort()) {
+    const content = await fs.readFile(path.resolve(rootDir, file)).catch(() => undefined);
+    if (content === undefined) return undefined;
+    hash.update(file);
+    hash.update(content);
+  }
+  return hash.digest("hex");
+}
+
+async function isUpToDate(previous: WorkerBuildInfo | undefined, settings: string, rootDir: string): Promise<boolean> {
+  if (!(previous?.inputHash && previous.inputs)) return false;
+
+  const outputExists = await fs.stat(previous.outputPath).then(
+    () => true,
+    () => false
+  );
+  return outputExists && (await hashInputs(settings, previous.inputs, rootDir)) === previous.inputHash;
+}
+
+/**
+ * Bundle a worker, reusing its open bundle from the cache. Returns the
+ * bundle's exports and the files it was built from.
+ */
+async function bundleWorker(
+  name: string,
+  bundleOpts: WorkerBundleOptions,
+  cache: BuildCache | undefined
+): Promise<{ exports: string[]; files: string[] }> {
+  const cached = cache?.bundles.get(name);
+  let bundle = cached?.settings === bundleOpts.settings ? cached.bundle : undefined;
+
+  if (!bundle) {
+    await cached?.bundle.close();
+    bundle = await rolldown(bundleOpts.input);
+    cache?.bundles.set(name, { settings: bundleOpts.settings, bundle });
+  }
+
+  try {
+    const { output } = await bundle.write(bundleOpts.output);
+    // Modules without a file on disk, such as polyfills, are left out
+    const files = (await bundle.watchFiles).filter((file) => path.isAbsolute(file));
+    return { exports: output[0].exports, files };
+  } finally {
+    if (!cache) await bundle.close();
+  }
+}
+
+async function buildWorker(
+  config: ResourceRegistry,
+  worker: RegisteredWorker,
+  previous: WorkerBuildInfo | undefined,
+  options: BuildContext
+): Promise<WorkerBuildInfo> {
+  const { name, options: workerOpts } = worker;
+  const { rootDir, silent = false } = options;
+  const bundleOpts = bundleOptions(config, worker, options);
+
+  if (previous && (await isUpToDate(previous, bundleOpts.settings, rootDir))) {
+    if (!silent) log(`+ ${name}`, "Up to date");
+    return previous;
+  }
+
+  if (!silent) log(`->  ${name}`, `Building ${workerOpts.entry}...`);
+  try {
+    const { exports, files } = await bundleWorker(name, bundleOpts, options.cache);
+    assertDurableObjectExports(config, name, exports);
+
+    const outputPath = bundleOpts.output.file!;
+    const bundledCode = await fs.readFile(outputPath);
+    assertBindingsConfigured(worker, bundledCode.toString("utf-8"));
+
+    const inputs = files.map((file) => path.relative(rootDir, file));
+    const inputHash = (await hashInputs(bundleOpts.settings, inputs, rootDir)) ?? "";
+    const contentHash = createHash("sha256").update(bundledCode).digest("hex");
+
+    if (!silent) log(`+ ${name}`, `Built (${formatBytes(bundledCode.length)})`);
+    return {
+      name,
+      entry: workerOpts.entry,
+      outputPath,
+      bundleSize: bundledCode.length,
+      inputHash,
+      inputs,
+      contentHash,
+    };
+  } catch (err) {
+    log(`x ${name}`, `Failed: ${err}`);
+    throw err;
+  }
+}
+
+async function readManifest(buildDir: string): Promise<BuildManifest | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(buildDir, BUILD_MANIFEST_FILE), "utf-8")) as BuildManifest;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Close the cached bundles of workers that are no longer built
+ */
+async function pruneCache(cache: BuildCache, workers: RegisteredWorker[]): Promise<void> {
+  for (const [name, cached] of cache.bundles) {
+    if (workers.some((worker) => worker.name === name)) continue;
+    await cached.bundle.close();
+    cache.bundles.delete(name);
+  }
+}
+
+// ============================================================================
+// Build
+// ============================================================================
+
 export async function build(config: ResourceRegistry, options: BuildContext): Promise<BuildManifest> {
   const { stage, rootDir, lumierDir, silent = false } = options;
-  const isProd = options.minify ?? stage === "production";
-  const buildDir = path.join(lumierDir, "build");
+  const buildDir = path.join(lumierDir, BUILD_DIR_NAME);
 
   await fs.mkdir(buildDir, { recursive: true });
+  const previousManifest = await readManifest(buildDir);
+  const previous = new Map(previousManifest?.workers.map((worker) => [worker.name, worker]));
 
   const manifest: BuildManifest = {
     timestamp: new Date().toISOString(),
     stage,
     workers: [],
+    staticSites: [],
   };
 
-  // Build Workers
-  for (const worker of config.workers) {
-    const { name, options: workerOpts } = worker;
-    if (!silent) log(`->  ${name}`, `Building ${workerOpts.entry}...`);
-
-    const workerDir = path.join(buildDir, name);
-    await fs.mkdir(workerDir, { recursive: true });
-    const outfile = path.join(workerDir, `${name}.js`);
-
-    try {
-      const buildOpts = workerOpts.build ?? {};
-      const conditions = buildOpts.conditions ?? DEFAULT_RESOLVE_CONDITIONS;
-
-      const hasNodeCompat = workerOpts.compatibilityFlags?.includes("nodejs_compat") ?? false;
-      const nodePolyfills = hasNodeCompat ? env(nodeless, cloudflare, {}) : null;
-
-      const nodeEnvReplacement = JSON.stringify(isProd ? "production" : "development");
-
-      // Cloudflare runtime modules should never be bundled
-      const cloudflareExternals = [cloudflareExternalsRegex];
-      const userExternals = buildOpts.external ?? [];
-      const external = [...cloudflareExternals, ...userExternals];
-
-      const bundle = await rolldown({
-        input: path.join(rootDir, workerOpts.entry),
-        platform: "browser",
-        resolve: {
-          conditionNames: conditions,
-          alias: nodePolyfills?.alias,
-        },
-        external,
-        transform: {
-          define: {
-            "process.env.NODE_ENV": nodeEnvReplacement,
-            "global.process.env.NODE_ENV": nodeEnvReplacement,
-            "globalThis.process.env.NODE_ENV": nodeEnvReplacement,
-            ...buildOpts.define,
-          },
-          target: "es2024",
-        },
-      });
-
-      await bundle.write({
-        cleanDir: true,
-        file: outfile,
-        format: "esm",
-        keepNames: true,
-        minify: buildOpts.minify ?? isProd,
-        banner: buildOpts.banner,
-        footer: buildOpts.footer,
-        sourcemap: buildOpts.sourcemap ?? true,
-      });
-
-      await bundle.close();
-
-      const stat = await fs.stat(outfile);
-      const bundleSize = stat.size;
-
-      const bundledCode = await fs.readFile(outfile, "utf-8");
-      const configuredBindings = new Set(Object.keys(workerOpts.bindings ?? {}));
-      const usedBindings = new Set<string>();
-
-      let match: RegExpExecArray | null;
-      while ((match = ENV_ACCESS_PATTERN.exec(bundledCode)) !== null) {
-        usedBindings.add(match[1]!);
-      }
-
-      const missingBindings: string[] = [];
-      for (const binding of usedBindings) {
-        if (!configuredBindings.has(binding)) {
-          missingBindings.push(binding);
-        }
-      }
-
-      if (missingBindings.length > 0) {
-        throw new LumierError(
-          `Worker "${name}" uses bindings that are not configured: ${missingBindings.join(", ")}\n` +
-            `Add them to the worker's bindings in lumier.config.ts`,
-          "MISSING_BINDINGS"
-        );
-      }
-
-      manifest.workers.push({ name, entry: workerOpts.entry, outputPath: outfile, bundleSize });
-      if (!silent) log(`+ ${name}`, `Built (${formatBytes(bundleSize)})`);
-    } catch (err) {
-      log(`x ${name}`, `Failed: ${err}`);
-      throw err;
-    }
+  if (!(options.dev || options.only)) {
+    await buildSSRSites(config, { rootDir, lumierDir, silent });
   }
 
-  await fs.writeFile(path.join(buildDir, "build-manifest.json"), JSON.stringify(manifest, null, 2));
+  const workers = config.workers.filter((worker) => !(options.dev && worker.site));
+  if (options.cache) await pruneCache(options.cache, workers);
+
+  // Every build runs to the end, so each failure is logged
+  const results = await Promise.allSettled(
+    workers.map((worker) => {
+      const last = previous.get(worker.name);
+      if (last && options.only && !options.only.includes(worker.name)) return last;
+      return buildWorker(config, worker, last, options);
+    })
+  );
+  for (const result of results) {
+    if (result.status === "rejected") throw result.reason;
+    manifest.workers.push(result.value);
+  }
+
+  manifest.staticSites =
+    options.only && previousManifest
+      ? previousManifest.staticSites
+      : await buildStaticSites(config, { rootDir, lumierDir, silent });
+
+  await fs.writeFile(path.join(buildDir, BUILD_MANIFEST_FILE), JSON.stringify(manifest, null, 2));
   return manifest;
 }
@@ -12,6 +12,7 @@ import * as crypto from "node:crypto";
 import * as fs from "node:fs/promises";
 import * as path from "node:path";
 import type { BindingValue, ResourceRegistry } from "../../sdk/index.js";
+import { DEFAULT_ASSETS_BINDING } from "./constants.js";
 import { isLinkableResource } from "./utils.js";
 
 // ============================================================================
@@ -97,6 +98,7 @@ const LINKABLE_TYPE_MAP: Record<string, string> = {
   worker: "Fetcher",
   hyperdrive: "Hyperdrive",
   analytics_engine: "AnalyticsEngineDataset",
+  secret: "string",
 };
 
 const MANUAL_BINDING_TYPE_MAP: Record<string, string> = {
@@ -194,6 +196,12 @@ function collectBindings(config: ResourceRegistry): CollectedBindings {
         bindings.set(key, typeInfo);
       }
     }
+
+    // Static assets are fetched through a binding of their own
+    const assetsBinding = worker.options.assets && (worker.options.assets.binding ?? DEFAULT_ASSETS_BINDING);
+    if (assetsBinding && !bindings.has(assetsBinding)) {
+      bindings.set(assetsBinding, { type: "Fetcher", isCloudflareType: true });
+    }
   }
 
   return { bindings, durableObjectClasses, hasNodejsCompat, stringVars };
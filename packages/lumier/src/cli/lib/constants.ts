@@ -27,6 +27,12 @@ export const BUILD_DIR_NAME = "build";
 /** Persist data subdirectory name (for dev) */
 export const PERSIST_DIR_NAME = "persist";
 
+/** Pulumi state backend subdirectory name */
+export const STACKS_DIR_NAME = "stacks";
+
+/** Deployed stack outputs subdirectory name */
+export const OUTPUTS_DIR_NAME = "outputs";
+
 /** Key file name for encryption */
 export const KEY_FILE_NAME = ".key";
 
@@ -38,6 +44,9 @@ export const DEFAULT_COMPATIBILITY_DATE = "2025-11-17";
 /** Default compatibility flags for Workers */
 export const DEFAULT_COMPATIBILITY_FLAGS = ["nodejs_compat"];
 
+/** Default binding of a worker's static assets */
+export const DEFAULT_ASSETS_BINDING = "ASSETS";
+
 /** Default dev server port */
 export const DEFAULT_DEV_PORT = 8787;
 
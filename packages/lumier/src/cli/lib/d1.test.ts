@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { Miniflare } from "miniflare";
+import { applyMigrations, createLocalClient, type D1Client, listAppliedMigrations } from "./d1.js";
+
+let mf: Miniflare;
+let client: D1Client;
+
+beforeEach(async () => {
+  mf = new Miniflare({ modules: true, script: "export default {};", d1Databases: { DB: "db" } });
+  client = createLocalClient(await mf.getD1Database("DB"));
+});
+
+afterEach(async () => {
+  await mf.dispose();
+});
+
+describe("applyMigrations", () => {
+  test("applies pending migrations in order and records them", async () => {
+    const migrations = [
+      { name: "0001_users.sql", sql: "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);\n" },
+      { name: "0002_seed.sql", sql: "INSERT INTO users (name) VALUES ('ada');\n" },
+    ];
+
+    expect(await applyMigrations(client, migrations.slice(0, 1))).toEqual(["0001_users.sql"]);
+    expect(await applyMigrations(client, migrations)).toEqual(["0002_seed.sql"]);
+
+    expect((await listAppliedMigrations(client)).map((migration) => migration.name)).toEqual([
+      "0001_users.sql",
+      "0002_seed.sql",
+    ]);
+  });
+
+  test("applies files whose last statement has no semicolon or is followed by a comment", async () => {
+    const migrations = [
+      { name: "0001_users.sql", sql: "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT)\n" },
+      { name: "0002_posts.sql", sql: "CREATE TABLE posts (id INTEGER PRIMARY KEY);\n-- posts belong to users" },
+    ];
+
+    expect(await applyMigrations(client, migrations)).toEqual(["0001_users.sql", "0002_posts.sql"]);
+  });
+
+  test("leaves a failed migration unrecorded", async () => {
+    const migrations = [{ name: "0001_broken.sql", sql: "CREATE TABLE broken (" }];
+
+    await expect(applyMigrations(client, migrations)).rejects.toThrow("Migration 0001_broken.sql failed");
+    expect(await listAppliedMigrations(client)).toEqual([]);
+  });
+});
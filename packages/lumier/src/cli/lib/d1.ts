@@ -0,0 +1,252 @@
+/**
+ * D1 Databases
+ *
+ * Clients for the local Miniflare databases `lumier dev` persists and for
+ * deployed ones, and migrations: the `.sql` files in a database's
+ * `migrations` directory are applied in file name order and recorded in a
+ * `d1_migrations` table (the table Wrangler uses, so either tool can pick up
+ * where the other left off).
+ */
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { Miniflare } from "miniflare";
+import type { ResourceRegistry } from "../../sdk/index.js";
+import type { LocalStores } from "./local-stores.js";
+import { LumierError } from "./utils.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Migration {
+  /** File name, e.g. `0001_create_users.sql` */
+  name: string;
+  sql: string;
+}
+
+export interface AppliedMigration {
+  name: string;
+  appliedAt: string;
+}
+
+export interface D1QueryResult {
+  /** Rows returned by the last statement */
+  rows: Array<Record<string, unknown>>;
+  /** Rows written by all statements */
+  changes: number;
+}
+
+/** Runs SQL against a local or deployed D1 database */
+export interface D1Client {
+  /** Run one or more statements; params bind to `?` placeholders */
+  query(sql: string, params?: unknown[]): Promise<D1QueryResult>;
+}
+
+type LocalD1Database = Awaited<ReturnType<Miniflare["getD1Database"]>>;
+
+export const MIGRATIONS_TABLE = "d1_migrations";
+
+const MIGRATION_PREFIX_REGEX = /^(\d+)_/;
+const MIGRATION_NAME_REGEX = /[^a-z0-9]+/g;
+const EDGE_UNDERSCORE_REGEX = /^_+|_+$/g;
+const TRAILING_SEMICOLON_REGEX = /;\s*$/;
+
+// ============================================================================
+// Migration Files
+// ============================================================================
+
+/**
+ * Read the migrations in a directory, sorted by file name
+ */
+export async function readMigrations(rootDir: string, directory: string): Promise<Migration[]> {
+  const dir = path.resolve(rootDir, directory);
+
+  let files: string[];
+  try {
+    files = await fs.readdir(dir);
+  } catch {
+    throw new LumierError(
+      `Migrations directory not found: ${directory}`,
+      "MIGRATIONS_NOT_FOUND",
+      `Create it with: lumier d1 create <name>`
+    );
+  }
+
+  const names = files.filter((file) => file.endsWith(".sql")).sort();
+  return await Promise.all(
+    names.map(async (name) => ({ name, sql: await fs.readFile(path.join(dir, name), "utf-8") }))
+  );
+}
+
+/**
+ * Read the migrations of every D1 database that has a `migrations` directory
+ */
+export async function readAllMigrations(config: ResourceRegistry, rootDir: string): Promise<Map<string, Migration[]>> {
+  const migrations = new Map<string, Migration[]>();
+  for (const { name, options } of config.d1s) {
+    if (options?.migrations) {
+      migrations.set(name, await readMigrations(rootDir, options.migrations));
+    }
+  }
+  return migrations;
+}
+
+/**
+ * Create an empty migration numbered after the existing ones
+ *
+ * @returns path of the new file
+ */
+export async function createMigration(rootDir: string, directory: string, description: string): Promise<string> {
+  const dir = path.resolve(rootDir, directory);
+  await fs.mkdir(dir, { recursive: true });
+
+  const slug = description.toLowerCase().replace(MIGRATION_NAME_REGEX, "_").replace(EDGE_UNDERSCORE_REGEX, "");
+  if (!slug) {
+    throw new LumierError(`Invalid migration name: "${description}"`, "INVALID_ARGS");
+  }
+
+  let last = -1;
+  for (const file of await fs.readdir(dir)) {
+    const match = file.match(MIGRATION_PREFIX_REGEX);
+    if (match && file.endsWith(".sql")) last = Math.max(last, Number(match[1]));
+  }
+
+  const number = String(last + 1).padStart(4, "0");
+  const filePath = path.join(dir, `${number}_${slug}.sql`);
+  await fs.writeFile(filePath, `-- Migration number: ${number}\t${new Date().toISOString()}\n`, { flag: "wx" });
+  return filePath;
+}
+
+// ============================================================================
+// Applying
+// ============================================================================
+
+function escapeSqlString(value: string): string {
+  return `'${value.replaceAll("'", "''")}'`;
+}
+
+/**
+ * List the migrations recorded in a database
+ */
+export async function listAppliedMigrations(client: D1Client): Promise<AppliedMigration[]> {
+  await client.query(
+    `CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT UNIQUE,
+      applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+    );`
+  );
+  const { rows } = await client.query(`SELECT name, applied_at FROM ${MIGRATIONS_TABLE} ORDER BY id`);
+  return rows.map((row) => ({ name: String(row.name), appliedAt: String(row.applied_at) }));
+}
+
+/**
+ * Apply pending migrations in order, stopping at the first failure
+ *
+ * @returns names of the migrations that were applied
+ */
+export async function applyMigrations(
+  client: D1Client,
+  migrations: Migration[],
+  onApplied?: (migration: Migration) => void
+): Promise<string[]> {
+  const applied = new Set((await listAppliedMigrations(client)).map((migration) => migration.name));
+  const names: string[] = [];
+
+  for (const migration of migrations) {
+    if (applied.has(migration.name)) continue;
+
+    // One request, so the migration and its record succeed or fail together.
+    // The last statement of a file may lack its `;`, or be followed by a comment.
+    const sql = migration.sql.trimEnd();
+    const statements = TRAILING_SEMICOLON_REGEX.test(sql) ? sql : `${sql}\n;`;
+    try {
+      await client.query(
+        `${statements}\nINSERT INTO ${MIGRATIONS_TABLE} (name) VALUES (${escapeSqlString(migration.name)});`
+      );
+    } catch (error) {
+      throw new Error(`Migration ${migration.name} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    names.push(migration.name);
+    onApplied?.(migration);
+  }
+
+  return names;
+}
+
+/**
+ * Apply pending migrations to the local D1 databases `lumier dev` uses
+ */
+export async function migrateLocalDatabases(
+  config: ResourceRegistry,
+  rootDir: string,
+  stores: LocalStores,
+  onApplied?: (database: string, migration: Migration) => void
+): Promise<void> {
+  const migrations = await readAllMigrations(config, rootDir);
+
+  for (const [name, pending] of migrations) {
+    try {
+      await applyMigrations(await stores.d1(name), pending, (migration) => onApplied?.(name, migration));
+    } catch (err) {
+      throw new LumierError(`D1 "${name}": ${err instanceof Error ? err.message : String(err)}`, "MIGRATION_FAILED");
+    }
+  }
+}
+
+// ============================================================================
+// Clients
+// ============================================================================
+
+interface D1QueryResponse {
+  success: boolean;
+  errors?: Array<{ message: string }>;
+  result?: Array<{ results?: Array<Record<string, unknown>>; meta?: { changes?: number } }>;
+}
+
+/**
+ * Client for a deployed database, using the D1 REST API
+ */
+export function createRemoteClient(accountId: string, apiToken: string, databaseId: string): D1Client {
+  return {
+    async query(sql, params) {
+      const response = await fetch(
+        `https://api.cloudflare.com/client/v4/accounts/${accountId}/d1/database/${databaseId}/query`,
+        {
+          method: "POST",
+          headers: { Authorization: `Bearer ${apiToken}`, "Content-Type": "application/json" },
+          body: JSON.stringify({ sql, params }),
+        }
+      );
+
+      const body = (await response.json().catch(() => ({ success: false }))) as D1QueryResponse;
+      if (!(response.ok && body.success)) {
+        const message = body.errors?.map((e) => e.message).join("; ") || `HTTP ${response.status}`;
+        throw new Error(`D1 query failed: ${message}`);
+      }
+      const results = body.result ?? [];
+      return {
+        rows: results.at(-1)?.results ?? [],
+        changes: results.reduce((total, result) => total + (result.meta?.changes ?? 0), 0),
+      };
+    },
+  };
+}
+
+/**
+ * Client for a D1 binding of a Miniflare instance
+ */
+export function createLocalClient(db: LocalD1Database): D1Client {
+  return {
+    async query(sql, params = []) {
+      // A single prepared statement may hold several; batch() runs them all
+      const [result] = await db.batch([db.prepare(sql).bind(...params)]);
+      return {
+        rows: (result?.results ?? []) as Array<Record<string, unknown>>,
+        changes: result?.meta.changes ?? 0,
+      };
+    },
+  };
+}
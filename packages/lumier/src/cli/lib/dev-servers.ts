@@ -0,0 +1,167 @@
+/**
+ * Framework Dev Servers
+ *
+ * `lumier dev` runs the dev server of each SSR site and forwards its worker's
+ * requests to it. The dev server reaches the site's bindings through its
+ * framework adapter's platform proxy (`getPlatformProxy()`), configured by a
+ * generated wrangler config whose IDs and persist directory are the ones
+ * Miniflare uses, so both see the same local data.
+ */
+
+import { type ChildProcess, spawn } from "node:child_process";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { PLATFORM_PROXY_ENV, type SSRSite } from "../../sdk/index.js";
+import { colors } from "./constants.js";
+import { log } from "./utils.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DevServer {
+  site: SSRSite;
+  process: ChildProcess;
+  stopping: boolean;
+}
+
+/** Local bindings of an SSR site, by binding name */
+export interface PlatformProxyBindings {
+  textBindings: Record<string, string>;
+  kvNamespaces: Record<string, string>;
+  r2Buckets: Record<string, string>;
+  d1Databases: Record<string, string>;
+  hyperdrives: Record<string, { connectionString: string }>;
+}
+
+export interface PlatformProxyConfig {
+  scriptName: string;
+  compatibilityDate: string;
+  compatibilityFlags: string[];
+  bindings: PlatformProxyBindings;
+}
+
+const LINE_BREAK_REGEX = /\r?\n/;
+
+// ============================================================================
+// Platform Proxy
+// ============================================================================
+
+/**
+ * Write the wrangler config the framework's platform proxy reads the site's
+ * bindings from
+ */
+export async function writePlatformProxyConfig(file: string, config: PlatformProxyConfig): Promise<void> {
+  const { bindings } = config;
+  const wranglerConfig = {
+    name: config.scriptName,
+    compatibility_date: config.compatibilityDate,
+    compatibility_flags: config.compatibilityFlags,
+    vars: bindings.textBindings,
+    kv_namespaces: Object.entries(bindings.kvNamespaces).map(([binding, id]) => ({ binding, id })),
+    r2_buckets: Object.entries(bindings.r2Buckets).map(([binding, name]) => ({ binding, bucket_name: name })),
+    d1_databases: Object.entries(bindings.d1Databases).map(([binding, id]) => ({
+      binding,
+      database_name: id,
+      database_id: id,
+    })),
+    hyperdrive: Object.entries(bindings.hyperdrives).map(([binding, { connectionString }]) => ({
+      binding,
+      id: binding,
+      localConnectionString: connectionString,
+    })),
+  };
+
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, `${JSON.stringify(wranglerConfig, null, 2)}\n`);
+}
+
+// ============================================================================
+// Processes
+// ============================================================================
+
+/**
+ * Code of an SSR site's worker in dev, which forwards every request to the
+ * framework's dev server
+ */
+export function devServerProxyScript(site: SSRSite): string {
+  const origin = `http://localhost:${site.devPort}`;
+  const unavailable = `${site.framework} dev server is not running on ${origin}`;
+  return `export default {
+  async fetch(request) {
+    const url = new URL(request.url);
+    const target = new URL(url.pathname + url.search, ${JSON.stringify(origin)});
+    try {
+      return await fetch(new Request(target, request));
+    } catch {
+      return new Response(${JSON.stringify(unavailable)}, { status: 502 });
+    }
+  },
+};`;
+}
+
+function pipeOutput(name: string, stream: NodeJS.ReadableStream): void {
+  let pending = "";
+  stream.setEncoding("utf-8");
+  stream.on("data", (chunk: string) => {
+    const lines = (pending + chunk).split(LINE_BREAK_REGEX);
+    pending = lines.pop() ?? "";
+    for (const line of lines) {
+      console.log(`${colors.dim}${name} |${colors.reset} ${line}`);
+    }
+  });
+}
+
+/**
+ * Start an SSR site's dev server in its app directory, with the platform
+ * proxy settings `platformProxy()` reads
+ */
+export function startDevServer(
+  name: string,
+  site: SSRSite,
+  options: { rootDir: string; configPath: string; persistDir: string }
+): DevServer {
+  // A process group of its own, so stopping it also stops what the command started
+  const child = spawn(site.devCommand, {
+    cwd: path.resolve(options.rootDir, site.path),
+    shell: true,
+    detached: true,
+    stdio: ["ignore", "pipe", "pipe"],
+    env: {
+      ...process.env,
+      PORT: String(site.devPort),
+      [PLATFORM_PROXY_ENV.configPath]: options.configPath,
+      [PLATFORM_PROXY_ENV.persistPath]: options.persistDir,
+    },
+  });
+  const server: DevServer = { site, process: child, stopping: false };
+
+  pipeOutput(name, child.stdout);
+  pipeOutput(name, child.stderr);
+  child.on("error", (error) => log(`x ${name}`, `Failed to run ${site.devCommand}: ${error.message}`));
+  child.on("exit", (code) => {
+    if (!server.stopping) log(`x ${name}`, `${site.devCommand} exited with code ${code}`);
+  });
+
+  return server;
+}
+
+export function stopDevServer(server: DevServer): void {
+  server.stopping = true;
+  const { pid } = server.process;
+  if (pid === undefined || server.process.exitCode !== null) return;
+  try {
+    process.kill(-pid, "SIGTERM");
+  } catch {
+    // Already exited
+  }
+}
+
+/**
+ * Whether a running dev server still matches its site's settings
+ */
+export function isCurrentDevServer(server: DevServer, site: SSRSite): boolean {
+  return (
+    server.site.devCommand === site.devCommand && server.site.devPort === site.devPort && server.site.path === site.path
+  );
+}
@@ -0,0 +1,116 @@
+import { describe, expect, test } from "bun:test";
+import { clearRegistry, DurableObject, type DurableObjectMigration, getRegistry, Worker } from "../../sdk/index.js";
+import { type AppliedMigration, planDurableObjectMigrations } from "./durable-objects.js";
+
+/** Start a new registry with only the api worker, as a changed config would */
+function registerApi(): ReturnType<typeof Worker> {
+  clearRegistry();
+  getRegistry().app = { name: "shop", stage: "test" };
+  return Worker("api", { entry: "src/api.ts" });
+}
+
+/** Start a new registry where the api worker hosts the rooms DurableObject */
+function registerRooms(migrations?: DurableObjectMigration[], className = "Room"): void {
+  DurableObject("rooms", { worker: registerApi(), className, migrations });
+}
+
+/** Migrations recorded after a first deploy of the current registry */
+function deployed(): Map<string, AppliedMigration[]> {
+  const plans = planDurableObjectMigrations(getRegistry(), new Map());
+  return new Map([...plans].map(([worker, plan]) => [worker, plan.applied]));
+}
+
+describe("planDurableObjectMigrations", () => {
+  test("creates a DurableObject without migrations as a new SQLite class", () => {
+    registerRooms();
+
+    const plan = planDurableObjectMigrations(getRegistry(), new Map()).get("api");
+
+    expect(plan).toMatchObject({ oldTag: undefined, newTag: "new-Room", steps: [{ newSqliteClasses: ["Room"] }] });
+  });
+
+  test("sends only the migrations that have not been applied", () => {
+    registerRooms([{ tag: "v1", newClass: true }], "ChatRoom");
+    const applied = deployed();
+    registerRooms([
+      { tag: "v1", newClass: true },
+      { tag: "v2", renamedFrom: "ChatRoom" },
+    ]);
+
+    const plan = planDurableObjectMigrations(getRegistry(), applied).get("api");
+
+    expect(plan).toMatchObject({
+      oldTag: "v1",
+      newTag: "v2",
+      steps: [{ renamedClasses: [{ from: "ChatRoom", to: "Room" }] }],
+    });
+    expect(plan?.applied.map((migration) => migration.tag)).toEqual(["v1", "v2"]);
+  });
+
+  test("renames a class created by a generated migration", () => {
+    registerRooms(undefined, "ChatRoom");
+    const applied = deployed();
+    registerRooms([
+      { tag: "new-ChatRoom", newClass: true },
+      { tag: "v2", renamedFrom: "ChatRoom" },
+    ]);
+
+    const plan = planDurableObjectMigrations(getRegistry(), applied).get("api");
+
+    expect(plan).toMatchObject({
+      oldTag: "new-ChatRoom",
+      newTag: "v2",
+      steps: [{ renamedClasses: [{ from: "ChatRoom", to: "Room" }] }],
+    });
+  });
+
+  test("keeps the applied migrations of a worker with nothing new", () => {
+    registerRooms();
+    const applied = deployed();
+
+    const plan = planDurableObjectMigrations(getRegistry(), applied).get("api");
+
+    expect(plan).toEqual({ oldTag: "new-Room", newTag: "new-Room", steps: [], applied: applied.get("api")! });
+  });
+
+  test("rejects an applied migration that was edited", () => {
+    registerRooms([{ tag: "v1", newClass: true }]);
+    const applied = deployed();
+    registerRooms([{ tag: "v1", renamedFrom: "ChatRoom" }]);
+
+    expect(() => planDurableObjectMigrations(getRegistry(), applied)).toThrow(
+      'Durable Object migration "v1" of DurableObject "rooms" was edited after it was applied'
+    );
+  });
+
+  test("rejects an applied migration that is no longer declared", () => {
+    registerRooms();
+    const applied = deployed();
+    registerRooms([{ tag: "v1", newClass: true }]);
+
+    expect(() => planDurableObjectMigrations(getRegistry(), applied)).toThrow(
+      'Durable Object migration "new-Room" of worker "api" was applied but is no longer declared'
+    );
+  });
+
+  test("rejects a new migration placed before an applied one", () => {
+    registerRooms([{ tag: "v2", newClass: true }]);
+    const applied = deployed();
+    registerRooms([
+      { tag: "v1", newClass: true },
+      { tag: "v2", newClass: true },
+    ]);
+
+    expect(() => planDurableObjectMigrations(getRegistry(), applied)).toThrow(
+      'Durable Object migration "v1" of DurableObject "rooms" comes before the applied migration "v2"'
+    );
+  });
+
+  test("rejects removing every DurableObject from a worker that hosted one", () => {
+    registerRooms();
+    const applied = deployed();
+    registerApi();
+
+    expect(() => planDurableObjectMigrations(getRegistry(), applied)).toThrow("was applied but is no longer declared");
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Durable Object Migrations
+ *
+ * Cloudflare tracks Durable Object migrations per worker script by tag. Each
+ * DurableObject() contributes its `migrations` (or a generated `newClass`
+ * migration) to its host worker's sequence; deploy sends the tags that have
+ * not been applied yet, and records every applied tag with a hash of its
+ * content in the stack state so past migrations cannot be reordered or edited.
+ */
+
+import { createHash } from "node:crypto";
+import type { DurableObjectMigration, DurableObjectOptions, ResourceRegistry } from "../../sdk/index.js";
+import { nameFromUrn } from "./plan.js";
+import { LumierError } from "./utils.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** One migration step of a worker script, as the Workers API expects it */
+export interface MigrationStep {
+  newClasses?: string[];
+  newSqliteClasses?: string[];
+  renamedClasses?: Array<{ from: string; to: string }>;
+  deletedClasses?: string[];
+  transferredClasses?: Array<{ from: string; fromScript: string; to: string }>;
+}
+
+/** A migration deploy has applied to a worker */
+export interface AppliedMigration {
+  tag: string;
+  /** SHA-256 of what the migration declares, see hashMigration */
+  hash: string;
+}
+
+/** Migrations to send with a worker's next version */
+export interface WorkerMigrations {
+  /** Last applied tag, which Cloudflare checks before applying the steps */
+  oldTag?: string;
+  newTag: string;
+  steps: MigrationStep[];
+  /** Every migration of the worker once the steps are applied */
+  applied: AppliedMigration[];
+}
+
+interface PlannedMigration extends AppliedMigration {
+  /** DurableObject the migration belongs to */
+  name: string;
+  step: MigrationStep;
+}
+
+interface StateResource {
+  urn: string;
+  type: string;
+  outputs?: Record<string, unknown>;
+}
+
+export const DO_MIGRATIONS_TYPE = "pulumi-nodejs:dynamic/lumier:DurableObjectMigrations";
+
+const MIGRATIONS_RESOURCE_PREFIX = "do-migrations-";
+
+/** Pulumi name of the resource recording a worker's applied migrations */
+export function migrationsResourceName(workerName: string): string {
+  return `${MIGRATIONS_RESOURCE_PREFIX}${workerName}`;
+}
+
+// ============================================================================
+// Migration Steps
+// ============================================================================
+
+/**
+ * Tag of the migration generated for a DurableObject declared without
+ * `migrations`
+ */
+export function generatedMigrationTag(className: string): string {
+  return `new-${className}`;
+}
+
+/**
+ * Migrations of a DurableObject, generating a `newClass` migration when none
+ * are declared
+ */
+export function declaredMigrations(options: DurableObjectOptions): DurableObjectMigration[] {
+  if (options.migrations && options.migrations.length > 0) return options.migrations;
+  return [{ tag: generatedMigrationTag(options.className), newClass: true }];
+}
+
+/**
+ * Whether the class of a DurableObject has been deleted by its migrations,
+ * so its host no longer needs to export it
+ */
+export function isDeletedClass(options: DurableObjectOptions): boolean {
+  return declaredMigrations(options).at(-1)?.deletedClass === true;
+}
+
+function toMigrationStep(migration: DurableObjectMigration, options: DurableObjectOptions): MigrationStep {
+  const { className, sqlite = true } = options;
+  const step: MigrationStep = {};
+
+  if (migration.newClass) {
+    step[sqlite ? "newSqliteClasses" : "newClasses"] = [className];
+  }
+  if (migration.renamedFrom) {
+    step.renamedClasses = [{ from: migration.renamedFrom, to: className }];
+  }
+  if (migration.transferredFrom) {
+    const { fromClass, fromScript } = migration.transferredFrom;
+    step.transferredClasses = [{ from: fromClass, fromScript, to: className }];
+  }
+  if (migration.deletedClass) {
+    step.deletedClasses = [className];
+  }
+
+  return step;
+}
+
+/**
+ * Hash of a migration as declared. The class name is left out: renaming the
+ * class changes it for every earlier migration, which stay applied as they were.
+ */
+function hashMigration(migration: DurableObjectMigration, options: DurableObjectOptions): string {
+  const { tag, newClass, renamedFrom, deletedClass, transferredFrom } = migration;
+  const storage = newClass ? ((options.sqlite ?? true) ? "sqlite" : "kv") : undefined;
+  return createHash("sha256")
+    .update(JSON.stringify({ tag, newClass, renamedFrom, deletedClass, transferredFrom, storage }))
+    .digest("hex");
+}
+
+// ============================================================================
+// Applied Migrations
+// ============================================================================
+
+/**
+ * Applied migrations of each worker, by worker name, from a stack's resources
+ */
+export function readAppliedMigrations(resources: StateResource[]): Map<string, AppliedMigration[]> {
+  const applied = new Map<string, AppliedMigration[]>();
+  for (const resource of resources) {
+    if (resource.type !== DO_MIGRATIONS_TYPE) continue;
+    const name = nameFromUrn(resource.urn).slice(MIGRATIONS_RESOURCE_PREFIX.length);
+    applied.set(name, (resource.outputs?.migrations as AppliedMigration[] | undefined) ?? []);
+  }
+  return applied;
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/**
+ * A worker's migrations in order: each DurableObject's in declaration order,
+ * DurableObjects in registry order
+ */
+function workerMigrations(config: ResourceRegistry, workerName: string): PlannedMigration[] {
+  return config.durableObjects
+    .filter(({ options }) => options.worker.name === workerName)
+    .flatMap(({ name, options }) =>
+      declaredMigrations(options).map((migration) => {
+        const step = toMigrationStep(migration, options);
+        return { name, tag: migration.tag, hash: hashMigration(migration, options), step };
+      })
+    );
+}
+
+/**
+ * Check a worker's declared migrations against the ones already applied.
+ * Applied tags must all still be declared, unchanged, and before any new tag
+ * of the same DurableObject.
+ */
+function assertAppliedMigrations(workerName: string, planned: PlannedMigration[], applied: AppliedMigration[]): void {
+  const appliedTags = new Set(applied.map((migration) => migration.tag));
+
+  for (const { tag, hash } of applied) {
+    const declared = planned.find((migration) => migration.tag === tag);
+    if (!declared) {
+      const generated = tag.startsWith(generatedMigrationTag(""));
+      throw new LumierError(
+        `Durable Object migration "${tag}" of worker "${workerName}" was applied but is no longer declared`,
+        "MIGRATION_CONFLICT",
+        generated
+          ? `It was generated for a DurableObject without migrations; start its migrations with { tag: "${tag}", newClass: true }`
+          : "Keep applied migrations in the config; remove a class with a { tag, deletedClass: true } migration"
+      );
+    }
+    if (declared.hash !== hash) {
+      throw new LumierError(
+        `Durable Object migration "${tag}" of DurableObject "${declared.name}" was edited after it was applied`,
+        "MIGRATION_CONFLICT",
+        "Applied migrations cannot change; add a migration with a new tag instead"
+      );
+    }
+  }
+
+  for (const [index, migration] of planned.entries()) {
+    if (appliedTags.has(migration.tag)) continue;
+    const later = planned.slice(index + 1).find((other) => other.name === migration.name && appliedTags.has(other.tag));
+    if (later) {
+      throw new LumierError(
+        `Durable Object migration "${migration.tag}" of DurableObject "${migration.name}" comes before the applied migration "${later.tag}"`,
+        "MIGRATION_CONFLICT",
+        "New migrations must be added after the applied ones"
+      );
+    }
+  }
+}
+
+/**
+ * Plan the Durable Object migrations of every worker hosting a
+ * DurableObject, by worker name. Workers with nothing new to apply are
+ * included with no steps, so their applied migrations stay recorded.
+ */
+export function planDurableObjectMigrations(
+  config: ResourceRegistry,
+  appliedByWorker: Map<string, AppliedMigration[]>
+): Map<string, WorkerMigrations> {
+  const plans = new Map<string, WorkerMigrations>();
+  // Workers that hosted a DurableObject before must still declare its migrations
+  const hosts = new Set([
+    ...config.durableObjects.map(({ options }) => options.worker.name),
+    ...[...appliedByWorker.keys()].filter((name) => config.workers.some((worker) => worker.name === name)),
+  ]);
+
+  for (const workerName of hosts) {
+    const planned = workerMigrations(config, workerName);
+    const applied = appliedByWorker.get(workerName) ?? [];
+    assertAppliedMigrations(workerName, planned, applied);
+
+    const appliedTags = new Set(applied.map((migration) => migration.tag));
+    const pending = planned.filter((migration) => !appliedTags.has(migration.tag));
+    const oldTag = applied.at(-1)?.tag;
+
+    plans.set(workerName, {
+      oldTag,
+      newTag: pending.at(-1)?.tag ?? oldTag ?? "",
+      steps: pending.map((migration) => migration.step),
+      applied: [...applied, ...pending.map(({ tag, hash }) => ({ tag, hash }))],
+    });
+  }
+
+  return plans;
+}
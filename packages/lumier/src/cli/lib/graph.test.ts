@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { type BindingValue, Cron, clearRegistry, DurableObject, getRegistry, Queue, Worker } from "../../sdk/index.js";
+import { buildGraph, findCycles, orderWorkers } from "./graph.js";
+import { LumierError } from "./utils.js";
+
+beforeEach(() => {
+  clearRegistry();
+  getRegistry().app = { name: "shop", stage: "test" };
+});
+
+describe("orderWorkers", () => {
+  test("places workers after the workers they bind", () => {
+    const api = Worker("api", { entry: "src/api.ts" });
+    Worker("web", { entry: "src/web.ts", bindings: { API: api } });
+
+    const order = orderWorkers(buildGraph(getRegistry()));
+
+    expect([...order.keys()]).toEqual(["api", "web"]);
+    expect(order.get("web")).toEqual(["api"]);
+  });
+
+  test("orders workers after the worker hosting a Durable Object they bind", () => {
+    const host = Worker("host", { entry: "src/host.ts" });
+    const rooms = DurableObject("rooms", { worker: host, className: "Room" });
+    Worker("web", { entry: "src/web.ts", bindings: { ROOMS: rooms } });
+
+    expect(orderWorkers(buildGraph(getRegistry())).get("web")).toEqual(["host"]);
+  });
+
+  test("allows a worker to bind a Durable Object it hosts", () => {
+    const bindings: Record<string, BindingValue> = {};
+    const api = Worker("api", { entry: "src/api.ts", bindings });
+    bindings.ROOMS = DurableObject("rooms", { worker: api, className: "Room" });
+
+    expect(orderWorkers(buildGraph(getRegistry())).get("api")).toEqual([]);
+  });
+
+  test("allows a worker to produce to and consume the same queue", () => {
+    const bindings: Record<string, BindingValue> = {};
+    const api = Worker("api", { entry: "src/api.ts", bindings });
+    bindings.JOBS = Queue("jobs", { consumer: { worker: api } });
+
+    const graph = buildGraph(getRegistry());
+
+    expect(findCycles(graph)).toEqual([]);
+    expect(orderWorkers(graph).get("api")).toEqual([]);
+  });
+
+  test("allows a consumer to bind the worker producing to its queue", () => {
+    const producerBindings: Record<string, BindingValue> = {};
+    const api = Worker("api", { entry: "src/api.ts", bindings: producerBindings });
+    const consumer = Worker("consumer", { entry: "src/consumer.ts", bindings: { API: api } });
+    producerBindings.JOBS = Queue("jobs", { consumer: { worker: consumer } });
+
+    const order = orderWorkers(buildGraph(getRegistry()));
+
+    expect([...order.keys()]).toEqual(["api", "consumer"]);
+    expect(order.get("consumer")).toEqual(["api"]);
+  });
+
+  test("ignores cron triggers", () => {
+    const api = Worker("api", { entry: "src/api.ts" });
+    Cron("nightly", { worker: api, schedule: "0 0 * * *" });
+
+    expect(orderWorkers(buildGraph(getRegistry())).get("api")).toEqual([]);
+  });
+
+  test("rejects workers that bind each other", () => {
+    const bindings: Record<string, BindingValue> = {};
+    const api = Worker("api", { entry: "src/api.ts", bindings });
+    const web = Worker("web", { entry: "src/web.ts", bindings: { API: api } });
+    bindings.WEB = web;
+
+    const graph = buildGraph(getRegistry());
+
+    expect(findCycles(graph)).toEqual([["worker:api", "worker:web", "worker:api"]]);
+    expect(() => orderWorkers(graph)).toThrow(LumierError);
+  });
+});
+
+describe("buildGraph", () => {
+  test("marks resources the app does not create as external", () => {
+    Worker("web", { entry: "src/web.ts", bindings: { LEGACY: { type: "service", service: "legacy-api" } } });
+
+    const graph = buildGraph(getRegistry());
+
+    expect(graph.nodes.find((node) => node.id === "worker:legacy-api")?.external).toBe(true);
+    expect(graph.edges).toContainEqual({
+      from: "worker:web",
+      to: "worker:legacy-api",
+      kind: "binding",
+      label: "LEGACY",
+    });
+  });
+});
@@ -0,0 +1,376 @@
+/**
+ * Resource Graph
+ *
+ * Makes the relations that are implicit in the ResourceRegistry explicit:
+ * worker bindings, queue consumers, cron triggers and Durable Object hosts.
+ * Edges point from a resource to the resource it depends on.
+ */
+
+import { formatLocation, type LinkableResource, type ResourceRegistry } from "../../sdk/index.js";
+import { isLinkableResource, LumierError, physicalName } from "./utils.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type GraphNodeKind = LinkableResource["type"] | "cron" | "static_site";
+
+export interface GraphNode {
+  id: string;
+  kind: GraphNodeKind;
+  name: string;
+  /** Referenced but not created by this app (e.g. `.existing()` or a foreign script) */
+  external?: boolean;
+  /** Where the resource is declared, as `file:line[:column]` */
+  location?: string;
+}
+
+export type GraphEdgeKind = "binding" | "consumer" | "dead_letter" | "trigger" | "host";
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  kind: GraphEdgeKind;
+  /** Binding name (binding edges only) */
+  label?: string;
+}
+
+export interface ResourceGraph {
+  app: string;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export type GraphFormat = "mermaid" | "dot" | "json";
+
+export const GRAPH_FORMATS: GraphFormat[] = ["mermaid", "dot", "json"];
+
+const KIND_LABELS: Record<GraphNodeKind, string> = {
+  worker: "Worker",
+  bucket: "Bucket",
+  kv: "KV",
+  d1: "D1",
+  queue: "Queue",
+  vectorize: "Vectorize",
+  durable_object: "DurableObject",
+  hyperdrive: "Hyperdrive",
+  analytics_engine: "AnalyticsEngine",
+  cron: "Cron",
+  static_site: "StaticSite",
+};
+
+/** Kinds drawn as data stores */
+const STORAGE_KINDS = new Set<GraphNodeKind>(["bucket", "kv", "d1", "vectorize", "hyperdrive", "analytics_engine"]);
+
+export function nodeId(kind: GraphNodeKind, name: string): string {
+  return `${kind}:${name}`;
+}
+
+// ============================================================================
+// Build
+// ============================================================================
+
+const REGISTRY_COLLECTIONS: Array<[Exclude<keyof ResourceRegistry, "app" | "outputs">, GraphNodeKind]> = [
+  ["workers", "worker"],
+  ["staticSites", "static_site"],
+  ["buckets", "bucket"],
+  ["kvs", "kv"],
+  ["d1s", "d1"],
+  ["queues", "queue"],
+  ["vectorizes", "vectorize"],
+  ["durableObjects", "durable_object"],
+  ["hyperdrives", "hyperdrive"],
+  ["analyticsEngines", "analytics_engine"],
+  ["crons", "cron"],
+];
+
+type AddNode = (kind: GraphNodeKind, name: string, external?: boolean) => string;
+
+function bindingEdges(config: ResourceRegistry, addNode: AddNode): GraphEdge[] {
+  const workersByScript = new Map(config.workers.map(({ name }) => [physicalName(config.app, name), name]));
+  const edges: GraphEdge[] = [];
+
+  for (const { name, options } of config.workers) {
+    const from = nodeId("worker", name);
+
+    for (const [key, value] of Object.entries(options.bindings ?? {})) {
+      if (typeof value === "string") continue;
+
+      if (isLinkableResource(value)) {
+        edges.push({ from, to: addNode(value.type, value.name, true), kind: "binding", label: key });
+      } else if (value.type === "service") {
+        const target = workersByScript.get(value.service);
+        edges.push({
+          from,
+          to: target ? nodeId("worker", target) : addNode("worker", value.service, true),
+          kind: "binding",
+          label: key,
+        });
+      }
+    }
+  }
+
+  return edges;
+}
+
+/**
+ * Build the dependency graph for a registry
+ */
+export function buildGraph(config: ResourceRegistry): ResourceGraph {
+  const nodes = new Map<string, GraphNode>();
+  const edges: GraphEdge[] = [];
+
+  const addNode: AddNode = (kind, name, external) => {
+    const id = nodeId(kind, name);
+    if (!nodes.has(id)) {
+      nodes.set(id, external ? { id, kind, name, external } : { id, kind, name });
+    }
+    return id;
+  };
+
+  // Registered resources first, so references to unknown ones become external nodes
+  for (const [collection, kind] of REGISTRY_COLLECTIONS) {
+    for (const { name, location } of config[collection]) {
+      const node = nodes.get(addNode(kind, name))!;
+      if (location && !node.location) node.location = formatLocation(location);
+    }
+  }
+
+  edges.push(...bindingEdges(config, addNode));
+
+  for (const { name, options } of config.queues) {
+    const from = nodeId("queue", name);
+
+    if (options?.consumer) {
+      edges.push({ from, to: addNode("worker", options.consumer.worker.name, true), kind: "consumer" });
+    }
+
+    const deadLetter = options?.deadLetterQueue;
+    if (deadLetter) {
+      const deadLetterName = typeof deadLetter === "string" ? deadLetter : deadLetter.name;
+      edges.push({ from, to: addNode("queue", deadLetterName, true), kind: "dead_letter" });
+    }
+  }
+
+  for (const { name, options } of config.crons) {
+    edges.push({ from: nodeId("cron", name), to: addNode("worker", options.worker.name, true), kind: "trigger" });
+  }
+
+  for (const { name, options } of config.durableObjects) {
+    edges.push({
+      from: nodeId("durable_object", name),
+      to: addNode("worker", options.worker.name, true),
+      kind: "host",
+    });
+  }
+
+  return { app: config.app.name, nodes: Array.from(nodes.values()), edges };
+}
+
+// ============================================================================
+// Analysis
+// ============================================================================
+
+/** Edges whose target must exist before their source can be deployed */
+const ORDERING_EDGE_KINDS = new Set<GraphEdgeKind>(["binding", "host"]);
+
+/**
+ * Adjacency list of the edges that constrain ordering.
+ *
+ * Queue consumers, dead letter queues and cron triggers are resources of
+ * their own, created after the workers, so they never order two workers. A
+ * worker binding a Durable Object it hosts itself is not a dependency either:
+ * the class ships in the same upload as the binding.
+ */
+function dependencyMap(graph: ResourceGraph): Map<string, string[]> {
+  const hosts = new Map(graph.edges.filter((e) => e.kind === "host").map((e) => [e.from, e.to]));
+  const adjacency = new Map<string, string[]>(graph.nodes.map((node) => [node.id, []]));
+
+  for (const edge of graph.edges) {
+    if (edge.from === edge.to || !ORDERING_EDGE_KINDS.has(edge.kind)) continue;
+    if (edge.kind === "binding" && hosts.get(edge.to) === edge.from) continue;
+    adjacency.get(edge.from)?.push(edge.to);
+  }
+
+  return adjacency;
+}
+
+/**
+ * Find dependency cycles; each cycle lists node IDs and ends where it starts
+ */
+export function findCycles(graph: ResourceGraph): string[][] {
+  const adjacency = dependencyMap(graph);
+  const state = new Map<string, "visiting" | "done">();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+
+  function visit(id: string): void {
+    state.set(id, "visiting");
+    stack.push(id);
+
+    for (const next of adjacency.get(id) ?? []) {
+      const nextState = state.get(next);
+      if (nextState === "visiting") {
+        const cycle = stack.slice(stack.indexOf(next));
+        // The same cycle can be entered from any of its nodes
+        const key = [...cycle].sort().join(" ");
+        if (!seen.has(key)) {
+          seen.add(key);
+          cycles.push([...cycle, next]);
+        }
+      } else if (nextState === undefined) {
+        visit(next);
+      }
+    }
+
+    stack.pop();
+    state.set(id, "done");
+  }
+
+  for (const node of graph.nodes) {
+    if (!state.has(node.id)) visit(node.id);
+  }
+
+  return cycles;
+}
+
+/**
+ * Order the app's workers so each comes after the workers it depends on
+ * (service bindings and Durable Objects hosted elsewhere).
+ *
+ * @returns worker name -> names of the workers it depends on, in deploy order
+ */
+export function orderWorkers(graph: ResourceGraph): Map<string, string[]> {
+  const cycle = findCycles(graph).find((c) => c.some((id) => id.startsWith("worker:")));
+  if (cycle) {
+    throw new LumierError(
+      `Circular dependency between workers: ${cycle.join(" -> ")}`,
+      "CIRCULAR_DEPENDENCY",
+      "Remove one of the bindings, or call the other worker over HTTP"
+    );
+  }
+
+  const adjacency = dependencyMap(graph);
+  const internal = new Set(graph.nodes.filter((n) => n.kind === "worker" && !n.external).map((n) => n.id));
+
+  // Workers reachable through a non-worker node (e.g. a Durable Object host)
+  function workerDependencies(id: string, seen = new Set<string>()): string[] {
+    const result: string[] = [];
+    for (const next of adjacency.get(id) ?? []) {
+      if (seen.has(next)) continue;
+      seen.add(next);
+      if (next.startsWith("worker:")) {
+        if (internal.has(next)) result.push(next);
+      } else {
+        result.push(...workerDependencies(next, seen));
+      }
+    }
+    return result;
+  }
+
+  const order = new Map<string, string[]>();
+  function place(id: string): void {
+    const name = id.slice("worker:".length);
+    if (order.has(name)) return;
+
+    const dependencies = workerDependencies(id);
+    for (const dependency of dependencies) place(dependency);
+    order.set(
+      name,
+      dependencies.map((d) => d.slice("worker:".length))
+    );
+  }
+
+  for (const id of internal) place(id);
+  return order;
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+function edgeLabel(edge: GraphEdge): string {
+  switch (edge.kind) {
+    case "binding":
+      return edge.label ?? "";
+    case "consumer":
+      return "consumer";
+    case "dead_letter":
+      return "dead letter";
+    case "trigger":
+      return "triggers";
+    case "host":
+      return "hosted by";
+    default:
+      return "";
+  }
+}
+
+function nodeLabel(node: GraphNode): string {
+  return `${KIND_LABELS[node.kind]}: ${node.name}${node.external ? " (external)" : ""}`;
+}
+
+const MERMAID_ID_REGEX = /[^a-zA-Z0-9_]/g;
+
+function toMermaid(graph: ResourceGraph): string {
+  const id = (value: string) => value.replace(MERMAID_ID_REGEX, "_");
+  const lines = ["flowchart LR"];
+
+  for (const node of graph.nodes) {
+    const label = JSON.stringify(nodeLabel(node));
+    if (node.location) lines.push(`  %% ${node.location}`);
+    lines.push(STORAGE_KINDS.has(node.kind) ? `  ${id(node.id)}[(${label})]` : `  ${id(node.id)}[${label}]`);
+  }
+  for (const edge of graph.edges) {
+    const label = edgeLabel(edge);
+    lines.push(`  ${id(edge.from)} -->${label ? `|${JSON.stringify(label)}|` : ""} ${id(edge.to)}`);
+  }
+
+  const external = graph.nodes.filter((node) => node.external);
+  if (external.length > 0) {
+    lines.push("  classDef external stroke-dasharray: 5 5");
+    lines.push(`  class ${external.map((node) => id(node.id)).join(",")} external`);
+  }
+
+  return lines.join("\n");
+}
+
+function toDot(graph: ResourceGraph): string {
+  const lines = [`digraph ${JSON.stringify(graph.app)} {`, "  rankdir=LR;", '  node [fontname="Helvetica"];'];
+
+  for (const node of graph.nodes) {
+    const attributes = [
+      `label=${JSON.stringify(nodeLabel(node))}`,
+      `shape=${STORAGE_KINDS.has(node.kind) ? "cylinder" : "box"}`,
+    ];
+    if (node.external) attributes.push("style=dashed");
+    if (node.location) attributes.push(`tooltip=${JSON.stringify(node.location)}`);
+    lines.push(`  ${JSON.stringify(node.id)} [${attributes.join(", ")}];`);
+  }
+  for (const edge of graph.edges) {
+    const label = edgeLabel(edge);
+    lines.push(
+      `  ${JSON.stringify(edge.from)} -> ${JSON.stringify(edge.to)}${label ? ` [label=${JSON.stringify(label)}]` : ""};`
+    );
+  }
+
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/**
+ * Render a graph as Mermaid, Graphviz DOT or JSON
+ */
+export function formatGraph(graph: ResourceGraph, format: GraphFormat): string {
+  switch (format) {
+    case "mermaid":
+      return toMermaid(graph);
+    case "dot":
+      return toDot(graph);
+    case "json":
+      return JSON.stringify({ ...graph, cycles: findCycles(graph) }, null, 2);
+    default:
+      throw new LumierError(`Unknown graph format: ${format}`, "INVALID_ARGS");
+  }
+}
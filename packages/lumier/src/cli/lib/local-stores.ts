@@ -0,0 +1,100 @@
+/**
+ * Local Stores
+ *
+ * Migrations, seeds and `lumier d1` reach the local D1, KV and R2 data of a
+ * stage through an internal worker that binds every store under the IDs the
+ * dev server uses. While `lumier dev` runs, that worker is part of its
+ * Miniflare instance; otherwise a short-lived instance hosts it. Only one
+ * runtime may open a persist directory at a time.
+ */
+
+import * as path from "node:path";
+import { Log, LogLevel, Miniflare, type WorkerOptions as MiniflareWorkerOptions } from "miniflare";
+import type { ResourceRegistry } from "../../sdk/index.js";
+import { DEFAULT_COMPATIBILITY_DATE } from "./constants.js";
+import { createLocalClient, type D1Client } from "./d1.js";
+import { acquirePersistLock, releasePersistLock } from "./persist.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type LocalKVNamespace = Awaited<ReturnType<Miniflare["getKVNamespace"]>>;
+export type LocalR2Bucket = Awaited<ReturnType<Miniflare["getR2Bucket"]>>;
+
+/** Local stores of a stage, by resource name */
+export interface LocalStores {
+  d1(name: string): Promise<D1Client>;
+  kv(name: string): Promise<LocalKVNamespace>;
+  bucket(name: string): Promise<LocalR2Bucket>;
+}
+
+/** Name of the internal worker; not routed, so requests never reach it */
+export const STORES_WORKER_NAME = "lumier-local-stores";
+
+const STORES_WORKER_SCRIPT = "export default { fetch() { return new Response(null, { status: 404 }); } };";
+
+type StoreKind = "d1" | "kv" | "bucket";
+
+function storeBinding(kind: StoreKind, name: string): string {
+  return `${kind.toUpperCase()}_${name}`;
+}
+
+// ============================================================================
+// Stores Worker
+// ============================================================================
+
+/**
+ * Options of the worker binding every D1, KV and Bucket of the config
+ */
+export function storesWorkerOptions(config: ResourceRegistry): MiniflareWorkerOptions {
+  return {
+    name: STORES_WORKER_NAME,
+    modules: true,
+    script: STORES_WORKER_SCRIPT,
+    compatibilityDate: DEFAULT_COMPATIBILITY_DATE,
+    d1Databases: Object.fromEntries(config.d1s.map(({ name }) => [storeBinding("d1", name), `d1-${name}`])),
+    kvNamespaces: Object.fromEntries(config.kvs.map(({ name }) => [storeBinding("kv", name), `kv-${name}`])),
+    r2Buckets: Object.fromEntries(config.buckets.map(({ name }) => [storeBinding("bucket", name), name])),
+  };
+}
+
+/**
+ * Stores of a Miniflare instance that runs the stores worker
+ */
+export function miniflareStores(mf: Miniflare): LocalStores {
+  return {
+    d1: async (name) => createLocalClient(await mf.getD1Database(storeBinding("d1", name), STORES_WORKER_NAME)),
+    kv: (name) => mf.getKVNamespace(storeBinding("kv", name), STORES_WORKER_NAME),
+    bucket: (name) => mf.getR2Bucket(storeBinding("bucket", name), STORES_WORKER_NAME),
+  };
+}
+
+/**
+ * Open the local stores of a stage, run `fn`, then shut them down. Fails
+ * while `lumier dev` or another command has them open.
+ */
+export async function withLocalStores<T>(
+  config: ResourceRegistry,
+  options: { stage: string; persistDir: string; command: string },
+  fn: (stores: LocalStores) => Promise<T>
+): Promise<T> {
+  const { stage, persistDir, command } = options;
+  await acquirePersistLock(persistDir, stage, command);
+
+  const mf = new Miniflare({
+    log: new Log(LogLevel.WARN),
+    cf: false,
+    workers: [storesWorkerOptions(config)],
+    d1Persist: path.join(persistDir, "d1"),
+    kvPersist: path.join(persistDir, "kv"),
+    r2Persist: path.join(persistDir, "r2"),
+  });
+
+  try {
+    return await fn(miniflareStores(mf));
+  } finally {
+    await mf.dispose();
+    await releasePersistLock(persistDir);
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Stack Outputs
+ *
+ * The resolved values returned from `run()` are saved per stage in
+ * `.lumier/outputs/<stage>.json` after each deploy, so they can be read
+ * back without touching Cloudflare.
+ */
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { OUTPUTS_DIR_NAME } from "./constants.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface StoredOutputs {
+  stage: string;
+  deployedAt: string;
+  outputs: Record<string, unknown>;
+}
+
+/** Stored in place of outputs Pulumi marks as secret */
+export const SECRET_OUTPUT = "[secret]";
+
+function getOutputsPath(lumierDir: string, stage: string): string {
+  return path.join(lumierDir, OUTPUTS_DIR_NAME, `${stage}.json`);
+}
+
+// ============================================================================
+// Read / Write
+// ============================================================================
+
+/**
+ * Save the outputs of a deploy for a stage
+ */
+export async function writeOutputs(lumierDir: string, stage: string, outputs: Record<string, unknown>): Promise<void> {
+  const stored: StoredOutputs = { stage, deployedAt: new Date().toISOString(), outputs };
+  const outputsPath = getOutputsPath(lumierDir, stage);
+
+  await fs.mkdir(path.dirname(outputsPath), { recursive: true });
+  await fs.writeFile(outputsPath, `${JSON.stringify(stored, null, 2)}\n`);
+}
+
+/**
+ * Read the outputs of the last deploy for a stage (null if never deployed)
+ */
+export async function readOutputs(lumierDir: string, stage: string): Promise<StoredOutputs | null> {
+  try {
+    return JSON.parse(await fs.readFile(getOutputsPath(lumierDir, stage), "utf-8")) as StoredOutputs;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove the saved outputs for a stage
+ */
+export async function removeOutputs(lumierDir: string, stage: string): Promise<void> {
+  await fs.rm(getOutputsPath(lumierDir, stage), { force: true });
+}
@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { getPersistDir, moveUnstagedData } from "./persist.js";
+
+let lumierDir: string;
+
+beforeEach(async () => {
+  lumierDir = await fs.mkdtemp(path.join(os.tmpdir(), "lumier-persist-"));
+});
+
+afterEach(async () => {
+  await fs.rm(lumierDir, { recursive: true, force: true });
+});
+
+async function writeFile(relative: string): Promise<void> {
+  const file = path.join(lumierDir, "persist", relative);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, "");
+}
+
+describe("moveUnstagedData", () => {
+  test("moves data from before stages to the given stage", async () => {
+    await writeFile("kv/miniflare-KVNamespaceObject/abc.sqlite");
+    await writeFile("do/api-Counter/def.sqlite");
+    await writeFile("seeded.json");
+
+    const result = await moveUnstagedData(lumierDir, "alice");
+
+    expect(result).toEqual({ paths: ["do", "kv", "seeded.json"], movedTo: "alice" });
+    const persistDir = getPersistDir(lumierDir, "alice");
+    expect((await fs.readdir(persistDir)).sort()).toEqual(["do", "kv", "seeded.json"]);
+    expect(await fs.readdir(path.join(persistDir, "do"))).toEqual(["api-Counter"]);
+  });
+
+  test("leaves the data in place when the stage already has its own", async () => {
+    await writeFile("d1/miniflare-D1DatabaseObject/abc.sqlite");
+    await writeFile("alice/d1/miniflare-D1DatabaseObject/def.sqlite");
+
+    expect(await moveUnstagedData(lumierDir, "alice")).toEqual({ paths: ["d1"] });
+    expect(await fs.readdir(path.join(lumierDir, "persist", "d1"))).toEqual(["miniflare-D1DatabaseObject"]);
+  });
+
+  test("ignores stages named like a kind of data", async () => {
+    await writeFile("kv/d1/miniflare-D1DatabaseObject/abc.sqlite");
+    await writeFile("do/seeded.json");
+
+    expect(await moveUnstagedData(lumierDir, "alice")).toBeUndefined();
+  });
+});
@@ -0,0 +1,364 @@
+/**
+ * Local Persisted State
+ *
+ * `lumier dev` persists KV, R2, D1 and Durable Object data per stage under
+ * `.lumier/persist/<stage>/{kv,r2,d1,do}`. Miniflare stores each KV
+ * namespace, bucket and database in a SQLite file named after a Durable
+ * Object ID derived from the binding's ID (plus a blob directory for KV and
+ * R2), and each Durable Object class in its own directory, so the files of
+ * a resource can be found from its name.
+ */
+
+import { createHash, createHmac } from "node:crypto";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { ResourceRegistry } from "../../sdk/index.js";
+import { PERSIST_DIR_NAME } from "./constants.js";
+import { forgetSeeds, SEED_STATE_FILE, type SeedKind } from "./seed.js";
+import { LumierError } from "./utils.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PersistKind = "kv" | "r2" | "d1" | "do";
+
+export const PERSIST_KINDS: PersistKind[] = ["kv", "r2", "d1", "do"];
+
+export interface PersistedResource {
+  kind: PersistKind;
+  /** Registry name, or undefined for data no resource in the config owns */
+  name?: string;
+  /** Bytes on disk */
+  size: number;
+  /** Existing files and directories, relative to the stage's persist directory */
+  paths: string[];
+}
+
+export interface PersistLock {
+  pid: number;
+  /** CLI command of the process, e.g. `dev` */
+  command: string;
+}
+
+export interface UnstagedData {
+  /** Entries of the old layout, relative to `.lumier/persist` */
+  paths: string[];
+  /** Stage they were moved to; undefined when that stage already had data */
+  movedTo?: string;
+}
+
+export interface ClearStateOptions {
+  /** Only data of this resource */
+  resource?: string;
+  /** Only data of this kind */
+  kind?: PersistKind;
+}
+
+/** Unique keys of the Miniflare-internal Durable Objects storing each kind */
+const OBJECT_NAMESPACES: Record<Exclude<PersistKind, "do">, string> = {
+  kv: "miniflare-KVNamespaceObject",
+  r2: "miniflare-R2BucketObject",
+  d1: "miniflare-D1DatabaseObject",
+};
+
+const SEED_KINDS: Partial<Record<PersistKind, SeedKind>> = { kv: "kv", r2: "bucket", d1: "d1" };
+
+const SQLITE_SUFFIXES = [".sqlite", ".sqlite-shm", ".sqlite-wal"];
+
+/** Process that has the stage's local data open, as a PersistLock */
+const LOCK_FILE = "lock.json";
+
+/**
+ * Persist directory of a stage
+ */
+export function getPersistDir(lumierDir: string, stage: string): string {
+  return path.join(lumierDir, PERSIST_DIR_NAME, stage);
+}
+
+export function isPersistKind(value: string): value is PersistKind {
+  return (PERSIST_KINDS as string[]).includes(value);
+}
+
+// ============================================================================
+// Lock
+// ============================================================================
+
+/**
+ * Command holding a persist directory, if its process is still running.
+ * Locks of processes that are gone are ignored.
+ */
+export async function persistLockHolder(persistDir: string): Promise<PersistLock | undefined> {
+  let lock: PersistLock;
+  try {
+    lock = JSON.parse(await fs.readFile(path.join(persistDir, LOCK_FILE), "utf-8"));
+  } catch {
+    return undefined;
+  }
+  if (!Number.isInteger(lock.pid) || lock.pid === process.pid) return undefined;
+
+  try {
+    process.kill(lock.pid, 0);
+    return lock;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Fail when another command has the local data of the stage open. workerd
+ * aborts when a second runtime opens the SQLite files another one holds.
+ */
+export async function assertPersistUnlocked(persistDir: string, stage: string): Promise<void> {
+  const holder = await persistLockHolder(persistDir);
+  if (!holder) return;
+
+  throw new LumierError(
+    `Local data of stage "${stage}" is in use by lumier ${holder.command} (process ${holder.pid})`,
+    "STATE_IN_USE",
+    holder.command === "dev"
+      ? "Stop lumier dev first. While it runs, it applies D1 migrations itself when a .sql file changes."
+      : `Wait for lumier ${holder.command} to finish`
+  );
+}
+
+/**
+ * Record that this process has the local data of a stage open
+ */
+export async function acquirePersistLock(persistDir: string, stage: string, command: string): Promise<void> {
+  await assertPersistUnlocked(persistDir, stage);
+  await fs.mkdir(persistDir, { recursive: true });
+  const lock: PersistLock = { pid: process.pid, command };
+  await fs.writeFile(path.join(persistDir, LOCK_FILE), `${JSON.stringify(lock)}\n`);
+}
+
+export async function releasePersistLock(persistDir: string): Promise<void> {
+  await fs.rm(path.join(persistDir, LOCK_FILE), { force: true });
+}
+
+// ============================================================================
+// Resource Paths
+// ============================================================================
+
+/**
+ * Hex ID workerd derives for a Durable Object name, which Miniflare uses as
+ * the object's file name: an HMAC-SHA256 of the name keyed with the SHA-256
+ * of the namespace's unique key, followed by an HMAC of that
+ */
+function objectId(uniqueKey: string, name: string): string {
+  const key = createHash("sha256").update(uniqueKey).digest();
+  const base = createHmac("sha256", key).update(name).digest().subarray(0, 16);
+  const mac = createHmac("sha256", key).update(base).digest().subarray(0, 16);
+  return Buffer.concat([base, mac]).toString("hex");
+}
+
+/**
+ * Files of a KV namespace, bucket or database stored under a binding ID
+ */
+function storagePaths(kind: Exclude<PersistKind, "do">, id: string): string[] {
+  const namespace = OBJECT_NAMESPACES[kind];
+  const file = objectId(namespace, id);
+  return [path.join(kind, id), ...SQLITE_SUFFIXES.map((suffix) => path.join(kind, namespace, `${file}${suffix}`))];
+}
+
+/**
+ * Every resource the config declares, with the paths its data may occupy.
+ * Binding IDs match the dev server's: `kv-<name>`, `d1-<name>` and the
+ * bucket name; a Durable Object persists per class, under its host script.
+ */
+function resourcePaths(config: ResourceRegistry): Array<{ kind: PersistKind; name: string; paths: string[] }> {
+  return [
+    ...config.kvs.map(({ name }) => ({ kind: "kv" as const, name, paths: storagePaths("kv", `kv-${name}`) })),
+    ...config.buckets.map(({ name }) => ({ kind: "r2" as const, name, paths: storagePaths("r2", name) })),
+    ...config.d1s.map(({ name }) => ({ kind: "d1" as const, name, paths: storagePaths("d1", `d1-${name}`) })),
+    ...config.durableObjects.map(({ name, options }) => ({
+      kind: "do" as const,
+      name,
+      paths: [path.join("do", `${options.worker._ref.scriptName}-${options.className}`)],
+    })),
+  ];
+}
+
+// ============================================================================
+// Listing
+// ============================================================================
+
+async function diskSize(filePath: string): Promise<number | undefined> {
+  let stat: Awaited<ReturnType<typeof fs.stat>>;
+  try {
+    stat = await fs.stat(filePath);
+  } catch {
+    return undefined;
+  }
+  if (!stat.isDirectory()) return stat.size;
+
+  let total = 0;
+  for (const entry of await fs.readdir(filePath)) {
+    total += (await diskSize(path.join(filePath, entry))) ?? 0;
+  }
+  return total;
+}
+
+/**
+ * Files under a kind's directory that no resource claims, skipping the
+ * metadata Miniflare keeps next to the object files
+ */
+async function unclaimedPaths(persistDir: string, kind: PersistKind, claimed: Set<string>): Promise<string[]> {
+  const dirs = kind === "do" ? [kind] : [kind, path.join(kind, OBJECT_NAMESPACES[kind])];
+  const unclaimed: string[] = [];
+
+  for (const dir of dirs) {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(path.join(persistDir, dir));
+    } catch {
+      continue;
+    }
+    for (const entry of entries) {
+      const relative = path.join(dir, entry);
+      if (claimed.has(relative) || dirs.includes(relative) || entry.startsWith("metadata.sqlite")) continue;
+      unclaimed.push(relative);
+    }
+  }
+
+  return unclaimed;
+}
+
+/**
+ * List the persisted data of a stage by resource. Data left by resources
+ * that are no longer in the config is reported once per kind, without a name.
+ */
+export async function listPersistedState(config: ResourceRegistry, persistDir: string): Promise<PersistedResource[]> {
+  const resources: PersistedResource[] = [];
+  const claimed = new Set<string>();
+
+  for (const { kind, name, paths } of resourcePaths(config)) {
+    const existing: string[] = [];
+    let size = 0;
+    for (const relative of paths) {
+      claimed.add(relative);
+      const bytes = await diskSize(path.join(persistDir, relative));
+      if (bytes === undefined) continue;
+      existing.push(relative);
+      size += bytes;
+    }
+    if (existing.length > 0) resources.push({ kind, name, size, paths: existing });
+  }
+
+  for (const kind of PERSIST_KINDS) {
+    const paths = await unclaimedPaths(persistDir, kind, claimed);
+    if (paths.length === 0) continue;
+
+    let size = 0;
+    for (const relative of paths) size += (await diskSize(path.join(persistDir, relative))) ?? 0;
+    resources.push({ kind, size, paths });
+  }
+
+  return resources;
+}
+
+// ============================================================================
+// Clearing
+// ============================================================================
+
+/**
+ * Delete persisted data of a stage, all of it unless filtered by resource or
+ * kind. Seeds of cleared resources are applied again by the next `lumier dev`.
+ *
+ * @returns the cleared resources
+ */
+export async function clearPersistedState(
+  config: ResourceRegistry,
+  persistDir: string,
+  options: ClearStateOptions = {}
+): Promise<PersistedResource[]> {
+  const { resource, kind } = options;
+
+  if (resource && !resourcePaths(config).some((entry) => entry.name === resource)) {
+    throw new LumierError(
+      `Unknown resource: "${resource}"`,
+      "UNKNOWN_RESOURCE",
+      "Pass the name of a KV, Bucket, D1 or DurableObject in lumier.config.ts"
+    );
+  }
+
+  const cleared = (await listPersistedState(config, persistDir)).filter(
+    (entry) => (!resource || entry.name === resource) && (!kind || entry.kind === kind)
+  );
+
+  if (!(resource || kind)) {
+    await fs.rm(persistDir, { recursive: true, force: true });
+    return cleared;
+  }
+
+  for (const entry of cleared) {
+    for (const relative of entry.paths) {
+      await fs.rm(path.join(persistDir, relative), { recursive: true, force: true });
+    }
+  }
+
+  await forgetSeeds(
+    persistDir,
+    resourcePaths(config).flatMap((entry) => {
+      const seedKind = SEED_KINDS[entry.kind];
+      const matches = (!resource || entry.name === resource) && (!kind || entry.kind === kind);
+      return seedKind && matches ? [{ kind: seedKind, name: entry.name }] : [];
+    })
+  );
+
+  return cleared;
+}
+
+// ============================================================================
+// Unstaged Data
+// ============================================================================
+
+/** Entries of a stage's persist directory */
+const STAGE_ENTRIES = new Set<string>([...PERSIST_KINDS, SEED_STATE_FILE, LOCK_FILE]);
+
+/**
+ * Whether an entry of `.lumier/persist` is data written before local data was
+ * kept per stage, rather than a stage's directory
+ */
+async function isUnstagedEntry(rootPersistDir: string, entry: string): Promise<boolean> {
+  const fullPath = path.join(rootPersistDir, entry);
+  if (entry === SEED_STATE_FILE) return true;
+  if (!isPersistKind(entry)) return false;
+  if (entry !== "do") return (await diskSize(path.join(fullPath, OBJECT_NAMESPACES[entry]))) !== undefined;
+
+  // Durable Object directories are named <script>-<class>
+  const children = await fs.readdir(fullPath).catch(() => []);
+  return children.length > 0 && !children.some((child) => STAGE_ENTRIES.has(child));
+}
+
+/**
+ * Move the data `lumier dev` kept directly in `.lumier/persist`, before it was
+ * split by stage, to the persist directory of `stage`. It stays in place when
+ * that stage already has data of its own.
+ *
+ * @returns the old entries, or undefined when there are none
+ */
+export async function moveUnstagedData(lumierDir: string, stage: string): Promise<UnstagedData | undefined> {
+  const rootPersistDir = path.join(lumierDir, PERSIST_DIR_NAME);
+  let entries: string[];
+  try {
+    entries = (await fs.readdir(rootPersistDir)).sort();
+  } catch {
+    return undefined;
+  }
+
+  const paths: string[] = [];
+  for (const entry of entries) {
+    if (await isUnstagedEntry(rootPersistDir, entry)) paths.push(entry);
+  }
+  if (paths.length === 0) return undefined;
+
+  const persistDir = getPersistDir(lumierDir, stage);
+  if ((await diskSize(persistDir)) !== undefined) return { paths };
+
+  await fs.mkdir(persistDir, { recursive: true });
+  for (const entry of paths) {
+    await fs.rename(path.join(rootPersistDir, entry), path.join(persistDir, entry));
+  }
+  return { paths, movedTo: stage };
+}
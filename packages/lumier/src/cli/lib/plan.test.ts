@@ -0,0 +1,34 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { clearRegistry, DurableObject, getRegistry, StaticSite, Worker } from "../../sdk/index.js";
+import { declarationLocations } from "./plan.js";
+
+const TEST_FILE_LOCATION_REGEX = /plan\.test\.ts:\d+:\d+$/;
+
+beforeEach(() => {
+  clearRegistry();
+  getRegistry().app = { name: "shop", stage: "test" };
+});
+
+describe("declarationLocations", () => {
+  test("locates the workers and custom domains of static sites", () => {
+    StaticSite("docs", { path: "docs", domain: "docs.example.com" });
+
+    const locations = declarationLocations(getRegistry());
+
+    expect(locations.get("worker-docs")).toMatch(TEST_FILE_LOCATION_REGEX);
+    expect(locations.get("domain-docs")).toBe(locations.get("worker-docs"));
+  });
+
+  test("locates a worker's Durable Object migrations at its first DurableObject", () => {
+    const api = Worker("api", { entry: "src/api.ts" });
+    DurableObject("rooms", { worker: api, className: "Room" });
+    DurableObject("users", { worker: api, className: "User" });
+
+    const locations = declarationLocations(getRegistry());
+    const [rooms, users] = getRegistry().durableObjects;
+
+    expect(locations.get("do-migrations-api")).toMatch(TEST_FILE_LOCATION_REGEX);
+    expect(locations.get("do-migrations-api")).toEndWith(`:${rooms!.location!.line}:${rooms!.location!.column}`);
+    expect(rooms!.location!.line).not.toBe(users!.location!.line);
+  });
+});
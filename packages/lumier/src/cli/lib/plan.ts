@@ -0,0 +1,251 @@
+/**
+ * Deploy Plan
+ *
+ * Collects Pulumi preview events into a resource-level plan and prints it.
+ */
+
+import type { EngineEvent, OpType, StepEventMetadata } from "@pulumi/pulumi/automation/index.js";
+import { formatLocation, type ResourceRegistry, type SourceLocation } from "../../sdk/index.js";
+import { colors } from "./constants.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PlanOperation = "create" | "update" | "replace" | "delete";
+
+export interface BindingChange {
+  name: string;
+  op: "add" | "remove" | "change";
+}
+
+export interface PlannedChange {
+  op: PlanOperation;
+  kind: string;
+  name: string;
+  /** Changed input properties (updates and replaces only) */
+  fields: string[];
+  /** Binding-level changes (worker versions only) */
+  bindings: BindingChange[];
+  /** Where the resource is declared in the config */
+  location?: string;
+}
+
+export interface Plan {
+  changes: PlannedChange[];
+  unchanged: number;
+}
+
+// ============================================================================
+// Resource Labels
+// ============================================================================
+
+const RESOURCE_KINDS: Record<string, string> = {
+  "cloudflare:index/worker:Worker": "worker script",
+  "cloudflare:index/workerVersion:WorkerVersion": "worker version",
+  "cloudflare:index/workersDeployment:WorkersDeployment": "worker deployment",
+  "cloudflare:index/workersCustomDomain:WorkersCustomDomain": "custom domain",
+  "cloudflare:index/r2Bucket:R2Bucket": "R2 bucket",
+  "cloudflare:index/workersKvNamespace:WorkersKvNamespace": "KV namespace",
+  "cloudflare:index/d1Database:D1Database": "D1 database",
+  "cloudflare:index/queue:Queue": "queue",
+  "cloudflare:index/queueConsumer:QueueConsumer": "queue consumer",
+  "cloudflare:index/workersCronTrigger:WorkersCronTrigger": "cron trigger",
+  "cloudflare:index/hyperdriveConfig:HyperdriveConfig": "Hyperdrive config",
+  "pulumi-nodejs:dynamic/lumier:VectorizeIndex": "Vectorize index",
+  "pulumi-nodejs:dynamic/lumier:D1Migrations": "D1 migrations",
+  "pulumi-nodejs:dynamic/lumier:DurableObjectMigrations": "Durable Object migrations",
+};
+
+const OPERATIONS: Partial<Record<OpType, PlanOperation>> = {
+  create: "create",
+  update: "update",
+  replace: "replace",
+  "create-replacement": "replace",
+  "delete-replaced": "replace",
+  delete: "delete",
+};
+
+const OPERATION_SYMBOLS: Record<PlanOperation, string> = {
+  create: `${colors.green}+${colors.reset}`,
+  update: `${colors.yellow}~${colors.reset}`,
+  replace: `${colors.yellow}±${colors.reset}`,
+  delete: `${colors.red}-${colors.reset}`,
+};
+
+const BINDING_SYMBOLS: Record<BindingChange["op"], string> = {
+  add: `${colors.green}+${colors.reset}`,
+  change: `${colors.yellow}~${colors.reset}`,
+  remove: `${colors.red}-${colors.reset}`,
+};
+
+/**
+ * Human-readable label for a Pulumi resource type
+ */
+export function resourceKind(type: string): string {
+  return RESOURCE_KINDS[type] ?? type;
+}
+
+/**
+ * Logical name from a URN (`urn:pulumi:stage::app::type::kv-cache` -> `kv-cache`)
+ */
+export function nameFromUrn(urn: string): string {
+  return urn.slice(urn.lastIndexOf("::") + 2);
+}
+
+/**
+ * Declaration sites keyed by logical name (see lib/pulumi.ts).
+ * Custom domains and cron triggers belong to the worker they attach to, a
+ * worker's Durable Object migrations to the first DurableObject it hosts.
+ */
+export function declarationLocations(config: ResourceRegistry): Map<string, string> {
+  const locations = new Map<string, string>();
+  const add = (logicalName: string, location: SourceLocation | undefined) => {
+    if (location && !locations.has(logicalName)) locations.set(logicalName, formatLocation(location));
+  };
+
+  for (const { name, location } of config.workers) {
+    add(`worker-${name}`, location);
+    add(`domain-${name}`, location);
+  }
+  // Static sites deploy as workers
+  for (const { name, location } of config.staticSites) {
+    add(`worker-${name}`, location);
+    add(`domain-${name}`, location);
+  }
+  for (const { options, location } of config.durableObjects) add(`do-migrations-${options.worker.name}`, location);
+  for (const { name, location } of config.buckets) add(`bucket-${name}`, location);
+  for (const { name, location } of config.kvs) add(`kv-${name}`, location);
+  for (const { name, location } of config.d1s) add(`d1-${name}`, location);
+  for (const { name, location } of config.queues) add(`queue-${name}`, location);
+  for (const { name, location } of config.vectorizes) add(`vectorize-${name}`, location);
+  for (const { name, location } of config.hyperdrives) add(`hyperdrive-${name}`, location);
+  for (const { options, location } of config.crons) add(`cron-${options.worker.name}`, location);
+
+  return locations;
+}
+
+function isInternalType(type: string): boolean {
+  return type === "pulumi:pulumi:Stack" || type.startsWith("pulumi:providers:");
+}
+
+// ============================================================================
+// Binding Diff
+// ============================================================================
+
+type BindingList = Array<Record<string, unknown> & { name: string }>;
+
+function diffBindings(oldBindings: BindingList = [], newBindings: BindingList = []): BindingChange[] {
+  const oldByName = new Map(oldBindings.map((b) => [b.name, JSON.stringify(b)]));
+  const newByName = new Map(newBindings.map((b) => [b.name, JSON.stringify(b)]));
+  const changes: BindingChange[] = [];
+
+  for (const [name, value] of newByName) {
+    const previous = oldByName.get(name);
+    if (previous === undefined) {
+      changes.push({ name, op: "add" });
+    } else if (previous !== value) {
+      changes.push({ name, op: "change" });
+    }
+  }
+  for (const name of oldByName.keys()) {
+    if (!newByName.has(name)) {
+      changes.push({ name, op: "remove" });
+    }
+  }
+
+  return changes.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Create a plan that fills up from Pulumi engine events
+ */
+export function createPlanCollector(locations = new Map<string, string>()): {
+  plan: Plan;
+  onEvent: (event: EngineEvent) => void;
+} {
+  const plan: Plan = { changes: [], unchanged: 0 };
+  const seen = new Set<string>();
+
+  function record(metadata: StepEventMetadata): void {
+    if (isInternalType(metadata.type) || seen.has(metadata.urn)) return;
+
+    const op = OPERATIONS[metadata.op];
+    if (!op) {
+      if (metadata.op === "same") {
+        seen.add(metadata.urn);
+        plan.unchanged++;
+      }
+      return;
+    }
+    seen.add(metadata.urn);
+
+    const isWorkerVersion = metadata.type === "cloudflare:index/workerVersion:WorkerVersion";
+    const bindings =
+      isWorkerVersion && op !== "delete"
+        ? diffBindings(metadata.old?.inputs.bindings, metadata.new?.inputs.bindings)
+        : [];
+
+    const name = nameFromUrn(metadata.urn);
+    plan.changes.push({
+      op,
+      kind: resourceKind(metadata.type),
+      name,
+      fields: op === "update" || op === "replace" ? (metadata.diffs ?? []) : [],
+      bindings,
+      location: locations.get(name),
+    });
+  }
+
+  return {
+    plan,
+    onEvent: (event) => {
+      if (event.resourcePreEvent) {
+        record(event.resourcePreEvent.metadata);
+      }
+    },
+  };
+}
+
+/**
+ * Check whether a plan would change anything
+ */
+export function hasChanges(plan: Plan): boolean {
+  return plan.changes.length > 0;
+}
+
+/**
+ * Print a plan, one line per changed resource
+ */
+export function printPlan(plan: Plan): void {
+  console.log("");
+
+  if (!hasChanges(plan)) {
+    console.log(`${colors.dim}No changes. ${plan.unchanged} resources unchanged.${colors.reset}\n`);
+    return;
+  }
+
+  for (const change of plan.changes) {
+    const fields = change.fields.length > 0 ? ` ${colors.dim}(${change.fields.join(", ")})${colors.reset}` : "";
+    const location = change.location ? `  ${colors.dim}${change.location}${colors.reset}` : "";
+    console.log(
+      `  ${OPERATION_SYMBOLS[change.op]} ${change.kind} ${colors.bold}${change.name}${colors.reset}${fields}${location}`
+    );
+
+    for (const binding of change.bindings) {
+      console.log(`      ${BINDING_SYMBOLS[binding.op]} binding ${binding.name}`);
+    }
+  }
+
+  const counts = new Map<PlanOperation, number>();
+  for (const change of plan.changes) {
+    counts.set(change.op, (counts.get(change.op) ?? 0) + 1);
+  }
+  const summary = Array.from(counts, ([op, count]) => `${count} to ${op}`).join(", ");
+
+  console.log(`\n${colors.bold}Plan:${colors.reset} ${summary}, ${plan.unchanged} unchanged\n`);
+}
@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import * as pulumi from "@pulumi/pulumi";
+import { type BindingValue, Cron, clearRegistry, getRegistry, KV, Queue, Worker } from "../../sdk/index.js";
+import { createProgram, type ProgramOptions } from "./pulumi.js";
+import type { BuildManifest, WorkerBuildInfo } from "./types.js";
+
+const created: pulumi.runtime.MockResourceArgs[] = [];
+
+beforeEach(() => {
+  created.length = 0;
+  clearRegistry();
+  getRegistry().app = { name: "shop", stage: "test" };
+
+  pulumi.runtime.setMocks(
+    {
+      newResource(args) {
+        created.push(args);
+        const state =
+          args.type === "cloudflare:index/worker:Worker"
+            ? { ...args.inputs, subdomain: { ...args.inputs.subdomain, url: `${args.inputs.name}.acme.workers.dev` } }
+            : args.inputs;
+        return { id: `${args.name}-id`, state };
+      },
+      call(args) {
+        return args.inputs;
+      },
+    },
+    "shop",
+    "test",
+    false
+  );
+});
+
+function builtWorker(name: string): WorkerBuildInfo {
+  return {
+    name,
+    entry: `src/${name}.ts`,
+    outputPath: `/build/${name}/${name}.js`,
+    bundleSize: 1,
+    inputHash: "input",
+    inputs: [`src/${name}.ts`],
+    contentHash: `${name}-sha256`,
+  };
+}
+
+function programOptions(overrides: Partial<ProgramOptions> = {}): ProgramOptions {
+  const registry = getRegistry();
+  const manifest: BuildManifest = {
+    timestamp: "",
+    stage: "test",
+    workers: registry.workers.map(({ name }) => builtWorker(name)),
+    staticSites: [],
+  };
+  return {
+    accountId: "account",
+    apiToken: "token",
+    rootDir: "/project",
+    manifest,
+    secrets: {},
+    migrations: new Map(),
+    durableObjectMigrations: new Map(),
+    ...overrides,
+  };
+}
+
+/** Run the program until every resource is registered, returning its resolved outputs */
+async function run(options: ProgramOptions): Promise<Record<string, unknown>> {
+  const outputs = await createProgram(getRegistry(), options)();
+  const resolved = await new Promise<Record<string, unknown>>((resolve) => pulumi.output(outputs ?? {}).apply(resolve));
+  await pulumi.runtime.disconnect();
+  return resolved;
+}
+
+function findResource(type: string, name: string): pulumi.runtime.MockResourceArgs {
+  const resource = created.find((args) => args.type === type && args.name === name);
+  if (!resource) throw new Error(`${type} ${name} was not created`);
+  return resource;
+}
+
+describe("createProgram", () => {
+  test("provisions storage, workers and triggers with bindings to the created resources", async () => {
+    const bindings: Record<string, BindingValue> = { CACHE: KV("cache"), STAGE: "test" };
+    const api = Worker("api", { entry: "src/api.ts", url: true, bindings });
+    bindings.JOBS = Queue("jobs", { consumer: { worker: api } });
+    Cron("nightly", { worker: api, schedule: "0 0 * * *" });
+    getRegistry().outputs = { url: api.url };
+
+    const outputs = await run(programOptions());
+
+    expect(findResource("cloudflare:index/workersKvNamespace:WorkersKvNamespace", "kv-cache").inputs.title).toBe(
+      "shop-test-cache"
+    );
+    const version = findResource("cloudflare:index/workerVersion:WorkerVersion", "worker-api").inputs;
+    expect(version.mainModule).toBe("api.js");
+    expect(version.modules[0].contentSha256).toBe("api-sha256");
+    expect(version.bindings).toContainEqual({ type: "kv_namespace", name: "CACHE", namespaceId: "kv-cache-id" });
+    expect(version.bindings).toContainEqual({ type: "plain_text", name: "STAGE", text: "test" });
+    expect(findResource("cloudflare:index/queueConsumer:QueueConsumer", "queue-jobs").inputs.scriptName).toBe(
+      "shop-test-api"
+    );
+    expect(findResource("cloudflare:index/workersCronTrigger:WorkersCronTrigger", "cron-api").inputs.schedules).toEqual(
+      [{ cron: "0 0 * * *" }]
+    );
+    expect(outputs).toEqual({ url: "https://shop-test-api.acme.workers.dev" });
+  });
+
+  test("creates workers after the workers they bind", async () => {
+    const api = Worker("api", { entry: "src/api.ts" });
+    Worker("web", { entry: "src/web.ts", bindings: { API: api } });
+
+    await run(programOptions());
+
+    const versions = created.filter((args) => args.type === "cloudflare:index/workerVersion:WorkerVersion");
+    expect(versions.map((args) => args.name)).toEqual(["worker-api", "worker-web"]);
+    expect(versions[1]!.inputs.bindings).toContainEqual({ type: "service", name: "API", service: "shop-test-api" });
+  });
+});
@@ -0,0 +1,841 @@
+/**
+ * Pulumi Program Generation
+ *
+ * Translates the ResourceRegistry into Cloudflare resources using an inline
+ * Pulumi program, and selects the stack for a stage via the Automation API.
+ */
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as cloudflare from "@pulumi/cloudflare";
+import * as pulumi from "@pulumi/pulumi";
+import { LocalWorkspace, type PulumiFn, type Stack, StackNotFoundError } from "@pulumi/pulumi/automation/index.js";
+import type { AssetsOptions, BindingValue, ResourceRegistry, WorkerOptions } from "../../sdk/index.js";
+import {
+  DEFAULT_ASSETS_BINDING,
+  DEFAULT_COMPATIBILITY_DATE,
+  DEFAULT_COMPATIBILITY_FLAGS,
+  STACKS_DIR_NAME,
+} from "./constants.js";
+import { applyMigrations, createRemoteClient, type Migration } from "./d1.js";
+import { type AppliedMigration, migrationsResourceName, type WorkerMigrations } from "./durable-objects.js";
+import { buildGraph, orderWorkers } from "./graph.js";
+import { resolveSecret, type SecretStore } from "./secrets.js";
+import type { BuildManifest } from "./types.js";
+import { isLinkableResource, isSecret, LumierError, physicalName } from "./utils.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CloudflareCredentials {
+  accountId: string;
+  apiToken: string;
+}
+
+export interface ProgramOptions {
+  accountId: string;
+  /**
+   * Token of Lumier's own providers (Vectorize, D1 migrations), kept as a
+   * secret in their state so deletes and refreshes run with the token of
+   * the last deploy, whatever the environment of the shell
+   */
+  apiToken: string;
+  rootDir: string;
+  manifest: BuildManifest;
+  secrets: SecretStore;
+  /** Migrations of each D1 database that has a `migrations` directory */
+  migrations: Map<string, Migration[]>;
+  /** Durable Object migrations of each worker hosting a DurableObject */
+  durableObjectMigrations: Map<string, WorkerMigrations>;
+}
+
+export interface StackOptions {
+  stage: string;
+  lumierDir: string;
+  /** Required to run a program; reading existing state works without them */
+  credentials?: CloudflareCredentials;
+  /** Program to run; without one, only existing state can be read or destroyed */
+  program?: PulumiFn;
+  /** Create the stack when the stage has not been deployed yet */
+  create?: boolean;
+}
+
+interface DeployedWorker {
+  scriptName: pulumi.Output<string>;
+  deployment: cloudflare.WorkersDeployment;
+  url: pulumi.Output<string>;
+}
+
+interface ProvisionedResources {
+  buckets: Map<string, cloudflare.R2Bucket>;
+  kvs: Map<string, cloudflare.WorkersKvNamespace>;
+  d1s: Map<string, cloudflare.D1Database>;
+  d1Migrations: Map<string, D1Migrations>;
+  queues: Map<string, cloudflare.Queue>;
+  vectorizes: Map<string, VectorizeIndex>;
+  hyperdrives: Map<string, cloudflare.HyperdriveConfig>;
+  workers: Map<string, DeployedWorker>;
+}
+
+type Transform = ((args: Record<string, unknown>) => void) | undefined;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Read Cloudflare credentials from the environment
+ */
+export function getCloudflareCredentials(): CloudflareCredentials {
+  const accountId = process.env.CLOUDFLARE_ACCOUNT_ID;
+  const apiToken = process.env.CLOUDFLARE_API_TOKEN;
+
+  if (!(accountId && apiToken)) {
+    throw new LumierError(
+      "Missing Cloudflare credentials",
+      "MISSING_CREDENTIALS",
+      "Set CLOUDFLARE_ACCOUNT_ID and CLOUDFLARE_API_TOKEN in your environment"
+    );
+  }
+
+  return { accountId, apiToken };
+}
+
+function applyTransform<T extends object>(args: T, transform: Transform): T {
+  transform?.(args as Record<string, unknown>);
+  return args;
+}
+
+function toUrl(value: string): string {
+  return value.startsWith("http") ? value : `https://${value}`;
+}
+
+function parseConnectionString(name: string, connectionString: string): cloudflare.types.input.HyperdriveConfigOrigin {
+  let url: URL;
+  try {
+    url = new URL(connectionString);
+  } catch {
+    throw new LumierError(`Hyperdrive "${name}": invalid connectionString`, "INVALID_CONFIG");
+  }
+
+  return {
+    scheme: url.protocol.replace(":", ""),
+    host: url.hostname,
+    port: url.port ? Number(url.port) : undefined,
+    database: decodeURIComponent(url.pathname.slice(1)),
+    user: decodeURIComponent(url.username),
+    password: decodeURIComponent(url.password),
+  };
+}
+
+// ============================================================================
+// Vectorize (no native resource in the Cloudflare provider)
+// ============================================================================
+
+interface VectorizeIndexInputs {
+  accountId: string;
+  apiToken: string;
+  indexName: string;
+  dimensions: number;
+  metric: string;
+}
+
+async function vectorizeRequest(
+  inputs: VectorizeIndexInputs,
+  method: string,
+  suffix: string,
+  body?: unknown
+): Promise<void> {
+  const response = await fetch(
+    `https://api.cloudflare.com/client/v4/accounts/${inputs.accountId}/vectorize/v2/indexes${suffix}`,
+    {
+      method,
+      headers: {
+        Authorization: `Bearer ${inputs.apiToken}`,
+        "Content-Type": "application/json",
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    }
+  );
+
+  if (!(response.ok || (method === "DELETE" && response.status === 404))) {
+    throw new Error(`Vectorize API ${method} failed (${response.status}): ${await response.text()}`);
+  }
+}
+
+const vectorizeProvider: pulumi.dynamic.ResourceProvider<VectorizeIndexInputs, VectorizeIndexInputs> = {
+  async create(inputs) {
+    await vectorizeRequest(inputs, "POST", "", {
+      name: inputs.indexName,
+      config: { dimensions: inputs.dimensions, metric: inputs.metric },
+    });
+    return { id: inputs.indexName, outs: inputs };
+  },
+  // biome-ignore lint/suspicious/useAwait: provider interface requires a promise
+  async diff(_id, olds, news) {
+    const replaces = (["accountId", "indexName", "dimensions", "metric"] as const).filter(
+      (key) => olds[key] !== news[key]
+    );
+    // A new token only updates the state
+    return { changes: replaces.length > 0 || olds.apiToken !== news.apiToken, replaces, deleteBeforeReplace: true };
+  },
+  // biome-ignore lint/suspicious/useAwait: provider interface requires a promise
+  async update(_id, _olds, news) {
+    return { outs: news };
+  },
+  async delete(_id, props) {
+    await vectorizeRequest(props, "DELETE", `/${props.indexName}`);
+  },
+};
+
+class VectorizeIndex extends pulumi.dynamic.Resource {
+  declare readonly indexName: pulumi.Output<string>;
+
+  constructor(name: string, args: pulumi.Inputs, opts?: pulumi.CustomResourceOptions) {
+    super(vectorizeProvider, name, args, opts, "lumier", "VectorizeIndex");
+  }
+}
+
+// ============================================================================
+// D1 Migrations
+// ============================================================================
+
+interface D1MigrationsInputs {
+  accountId: string;
+  apiToken: string;
+  databaseId: string;
+  migrations: Migration[];
+}
+
+async function applyRemoteMigrations(inputs: D1MigrationsInputs): Promise<void> {
+  const client = createRemoteClient(inputs.accountId, inputs.apiToken, inputs.databaseId);
+  await applyMigrations(client, inputs.migrations);
+}
+
+const d1MigrationsProvider: pulumi.dynamic.ResourceProvider<D1MigrationsInputs, D1MigrationsInputs> = {
+  async create(inputs) {
+    await applyRemoteMigrations(inputs);
+    return { id: inputs.databaseId, outs: inputs };
+  },
+  // biome-ignore lint/suspicious/useAwait: provider interface requires a promise
+  async diff(_id, olds, news) {
+    // Applied migrations are never re-run, so only new file names (or a new token) are a change
+    const names = (inputs: D1MigrationsInputs) => inputs.migrations.map((migration) => migration.name).join("\n");
+    return {
+      changes: olds.databaseId !== news.databaseId || names(olds) !== names(news) || olds.apiToken !== news.apiToken,
+      replaces: olds.databaseId === news.databaseId ? [] : ["databaseId"],
+    };
+  },
+  async update(_id, _olds, news) {
+    await applyRemoteMigrations(news);
+    return { outs: news };
+  },
+};
+
+class D1Migrations extends pulumi.dynamic.Resource {
+  constructor(name: string, args: pulumi.Inputs, opts?: pulumi.CustomResourceOptions) {
+    super(d1MigrationsProvider, name, args, opts, "lumier", "D1Migrations");
+  }
+}
+
+// ============================================================================
+// Durable Object Migrations
+// ============================================================================
+
+interface DurableObjectMigrationsInputs {
+  scriptName: string;
+  migrations: AppliedMigration[];
+}
+
+/**
+ * Records the Durable Object migrations applied to a worker. The worker
+ * version applies them; keeping them in the state lets the next deploy tell
+ * which tags are new (see lib/durable-objects.ts).
+ */
+const durableObjectMigrationsProvider: pulumi.dynamic.ResourceProvider<
+  DurableObjectMigrationsInputs,
+  DurableObjectMigrationsInputs
+> = {
+  // biome-ignore lint/suspicious/useAwait: provider interface requires a promise
+  async create(inputs) {
+    return { id: inputs.scriptName, outs: inputs };
+  },
+  // biome-ignore lint/suspicious/useAwait: provider interface requires a promise
+  async diff(_id, olds, news) {
+    const tags = (inputs: DurableObjectMigrationsInputs) =>
+      inputs.migrations.map((migration) => migration.tag).join("\n");
+    return {
+      changes: olds.scriptName !== news.scriptName || tags(olds) !== tags(news),
+      replaces: olds.scriptName === news.scriptName ? [] : ["scriptName"],
+    };
+  },
+  // biome-ignore lint/suspicious/useAwait: provider interface requires a promise
+  async update(_id, _olds, news) {
+    return { outs: news };
+  },
+};
+
+class DurableObjectMigrations extends pulumi.dynamic.Resource {
+  constructor(name: string, args: pulumi.Inputs, opts?: pulumi.CustomResourceOptions) {
+    super(durableObjectMigrationsProvider, name, args, opts, "lumier", "DurableObjectMigrations");
+  }
+}
+
+/**
+ * Migrations input of a worker version, when the worker has tags to apply
+ */
+function toVersionMigrations(
+  plan: WorkerMigrations | undefined
+): cloudflare.types.input.WorkerVersionMigrations | undefined {
+  if (!plan || plan.steps.length === 0) return undefined;
+  return { oldTag: plan.oldTag, newTag: plan.newTag, steps: plan.steps };
+}
+
+// ============================================================================
+// Binding Translation
+// ============================================================================
+
+function resolveLinkableBinding(
+  key: string,
+  value: { type: string; name: string; _ref: Record<string, unknown> },
+  resources: ProvisionedResources
+): cloudflare.types.input.WorkerVersionBinding {
+  const { type, name, _ref } = value;
+  const existing = _ref.existing === true;
+
+  function lookup<T>(map: Map<string, T>): T {
+    const resource = map.get(name);
+    if (!resource) {
+      throw new LumierError(
+        `Binding "${key}" references ${type} "${name}" which is not registered`,
+        "UNKNOWN_RESOURCE",
+        "Create the resource in run() or use the .existing() helper"
+      );
+    }
+    return resource;
+  }
+
+  switch (type) {
+    case "bucket":
+      return {
+        type: "r2_bucket",
+        name: key,
+        bucketName: existing ? (_ref.bucketName as string) : lookup(resources.buckets).name,
+      };
+    case "kv":
+      return {
+        type: "kv_namespace",
+        name: key,
+        namespaceId: existing ? (_ref.namespaceId as string) : lookup(resources.kvs).id,
+      };
+    case "d1":
+      return { type: "d1", name: key, id: existing ? (_ref.id as string) : lookup(resources.d1s).id };
+    case "queue":
+      return {
+        type: "queue",
+        name: key,
+        queueName: existing ? (_ref.queueName as string) : lookup(resources.queues).queueName,
+      };
+    case "vectorize":
+      return {
+        type: "vectorize",
+        name: key,
+        indexName: existing ? (_ref.indexName as string) : lookup(resources.vectorizes).indexName,
+      };
+    case "hyperdrive":
+      return { type: "hyperdrive", name: key, id: existing ? (_ref.id as string) : lookup(resources.hyperdrives).id };
+    case "analytics_engine":
+      return { type: "analytics_engine", name: key, dataset: _ref.dataset as string };
+    case "durable_object":
+      return {
+        type: "durable_object_namespace",
+        name: key,
+        className: _ref.className as string,
+        scriptName: _ref.scriptName as string | undefined,
+      };
+    case "worker":
+      return { type: "service", name: key, service: _ref.scriptName as string };
+    default:
+      throw new LumierError(`Binding "${key}" has unsupported type "${type}"`, "UNSUPPORTED_BINDING");
+  }
+}
+
+function toWorkerBindings(
+  bindings: Record<string, BindingValue> | undefined,
+  resources: ProvisionedResources,
+  secrets: SecretStore
+): cloudflare.types.input.WorkerVersionBinding[] {
+  const result: cloudflare.types.input.WorkerVersionBinding[] = [];
+
+  for (const [key, value] of Object.entries(bindings ?? {})) {
+    if (typeof value === "string") {
+      result.push({ type: "plain_text", name: key, text: value });
+    } else if (isSecret(value)) {
+      const text = resolveSecret(value, secrets);
+      if (text === undefined) {
+        throw new LumierError(`Secret "${value.name}" for binding "${key}" is not set`, "MISSING_SECRETS");
+      }
+      result.push({ type: "secret_text", name: key, text: pulumi.secret(text) });
+    } else if (isLinkableResource(value)) {
+      result.push(resolveLinkableBinding(key, value as never, resources));
+    } else if (value.type === "plain_text") {
+      result.push({ type: "plain_text", name: key, text: value.value });
+    } else if (value.type === "secret_text") {
+      result.push({ type: "secret_text", name: key, text: pulumi.secret(value.value) });
+    } else if (value.type === "json") {
+      result.push({ type: "json", name: key, json: JSON.stringify(value.value) });
+    } else if (value.type === "service") {
+      result.push({ type: "service", name: key, service: value.service, entrypoint: value.entrypoint });
+    }
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Resource Provisioning
+// ============================================================================
+
+function provisionStorage(config: ResourceRegistry, options: ProgramOptions, resources: ProvisionedResources): void {
+  const { app } = config;
+  const { accountId, migrations: migrationsByDatabase } = options;
+  const apiToken = pulumi.secret(options.apiToken);
+
+  for (const { name, options } of config.buckets) {
+    const args = applyTransform<cloudflare.R2BucketArgs>(
+      {
+        accountId,
+        name: physicalName(app, name).toLowerCase(),
+        location: options?.location,
+        jurisdiction: options?.jurisdiction,
+        storageClass: options?.storageClass,
+      },
+      options?.transform?.bucket
+    );
+    resources.buckets.set(name, new cloudflare.R2Bucket(`bucket-${name}`, args));
+  }
+
+  for (const { name, options } of config.kvs) {
+    const args = applyTransform<cloudflare.WorkersKvNamespaceArgs>(
+      { accountId, title: physicalName(app, name) },
+      options?.transform?.namespace
+    );
+    resources.kvs.set(name, new cloudflare.WorkersKvNamespace(`kv-${name}`, args));
+  }
+
+  for (const { name, options } of config.d1s) {
+    const args = applyTransform<cloudflare.D1DatabaseArgs>(
+      {
+        accountId,
+        name: physicalName(app, name),
+        primaryLocationHint: options?.primaryLocation,
+        readReplication:
+          options?.readReplication === undefined ? undefined : { mode: options.readReplication ? "auto" : "disabled" },
+      },
+      options?.transform?.database
+    );
+    const database = new cloudflare.D1Database(`d1-${name}`, args);
+    resources.d1s.set(name, database);
+
+    const migrations = migrationsByDatabase.get(name);
+    if (migrations) {
+      resources.d1Migrations.set(
+        name,
+        new D1Migrations(
+          `d1-${name}`,
+          { accountId, apiToken, databaseId: database.id, migrations },
+          { dependsOn: [database] }
+        )
+      );
+    }
+  }
+
+  for (const { name, options } of config.queues) {
+    const args = applyTransform<cloudflare.QueueArgs>(
+      { accountId, queueName: physicalName(app, name).toLowerCase() },
+      options?.transform?.queue
+    );
+    resources.queues.set(name, new cloudflare.Queue(`queue-${name}`, args));
+  }
+
+  for (const { name, options } of config.vectorizes) {
+    const args = applyTransform<Record<string, unknown>>(
+      {
+        accountId,
+        apiToken,
+        indexName: physicalName(app, name).toLowerCase(),
+        dimensions: options.dimensions,
+        metric: options.metric ?? "cosine",
+      },
+      options.transform?.index
+    );
+    resources.vectorizes.set(name, new VectorizeIndex(`vectorize-${name}`, args));
+  }
+
+  for (const { name, options } of config.hyperdrives) {
+    if (!options?.connectionString) {
+      throw new LumierError(
+        `Hyperdrive "${name}": connectionString is required to deploy`,
+        "INVALID_CONFIG",
+        "Set connectionString in the Hyperdrive options or use Hyperdrive.existing()"
+      );
+    }
+
+    const args = applyTransform<cloudflare.HyperdriveConfigArgs>(
+      {
+        accountId,
+        name: physicalName(app, name),
+        origin: parseConnectionString(name, options.connectionString),
+        caching: options.caching,
+      },
+      options.transform?.config
+    );
+    resources.hyperdrives.set(name, new cloudflare.HyperdriveConfig(`hyperdrive-${name}`, args));
+  }
+}
+
+function deployWorker(
+  name: string,
+  scriptName: string,
+  workerOpts: Omit<WorkerOptions, "entry">,
+  version: Omit<cloudflare.WorkerVersionArgs, "accountId" | "workerId">,
+  accountId: string,
+  dependsOn: pulumi.Resource[] = []
+): DeployedWorker {
+  const workerArgs = applyTransform<cloudflare.WorkerArgs>(
+    {
+      accountId,
+      name: scriptName,
+      logpush: workerOpts.logpush,
+      observability: workerOpts.observability ?? { enabled: true },
+      subdomain: { enabled: workerOpts.url ?? false, previewsEnabled: false },
+    },
+    workerOpts.transform?.worker
+  );
+  const worker = new cloudflare.Worker(`worker-${name}`, workerArgs);
+
+  const versionArgs = applyTransform<cloudflare.WorkerVersionArgs>(
+    { accountId, workerId: worker.id, ...version },
+    workerOpts.transform?.version
+  );
+  const workerVersion = new cloudflare.WorkerVersion(`worker-${name}`, versionArgs, { dependsOn });
+
+  const deployment = new cloudflare.WorkersDeployment(`worker-${name}`, {
+    accountId,
+    scriptName: worker.name,
+    strategy: "percentage",
+    versions: [{ versionId: workerVersion.id, percentage: 100 }],
+  });
+
+  if (workerOpts.domain) {
+    new cloudflare.WorkersCustomDomain(
+      `domain-${name}`,
+      { accountId, hostname: workerOpts.domain, service: worker.name },
+      { dependsOn: [deployment] }
+    );
+  }
+
+  return {
+    scriptName: worker.name,
+    deployment,
+    url: workerOpts.domain
+      ? pulumi.output(`https://${workerOpts.domain}`)
+      : worker.subdomain.apply((subdomain) => toUrl(subdomain.url)),
+  };
+}
+
+/**
+ * Assets of a worker version, with the same routing the dev server applies
+ */
+function toWorkerAssets(assets: AssetsOptions, rootDir: string): cloudflare.types.input.WorkerVersionAssets {
+  return {
+    directory: path.resolve(rootDir, assets.directory),
+    config: {
+      notFoundHandling: assets.notFoundHandling ?? "none",
+      htmlHandling: assets.htmlHandling ?? "auto-trailing-slash",
+      runWorkerFirst: assets.runWorkerFirst ?? false,
+    },
+  };
+}
+
+/** Migrations of the bound D1 databases, which must run before new code is deployed */
+function migrationDependencies(
+  bindings: Record<string, BindingValue> | undefined,
+  resources: ProvisionedResources
+): pulumi.Resource[] {
+  return Object.values(bindings ?? {}).flatMap((value) => {
+    const migrations = isLinkableResource(value) && value.type === "d1" && resources.d1Migrations.get(value.name);
+    return migrations ? [migrations] : [];
+  });
+}
+
+function provisionWorkers(config: ResourceRegistry, options: ProgramOptions, resources: ProvisionedResources): void {
+  const { accountId, manifest, rootDir } = options;
+
+  // Workers bound to other workers (services, Durable Objects) deploy after them
+  for (const [name, dependencies] of orderWorkers(buildGraph(config))) {
+    const workerOpts = config.workers.find((w) => w.name === name)!.options;
+    const built = manifest.workers.find((w) => w.name === name);
+    if (!built) {
+      throw new LumierError(`Worker "${name}" has not been built`, "BUILD_MISSING");
+    }
+
+    const moduleName = path.basename(built.outputPath);
+    const placement = workerOpts.placement ?? { mode: "smart" };
+    const migrations = options.durableObjectMigrations.get(name);
+
+    const deployed = deployWorker(
+      name,
+      physicalName(config.app, name),
+      workerOpts,
+      {
+        mainModule: moduleName,
+        modules: [
+          {
+            name: moduleName,
+            contentFile: built.outputPath,
+            contentSha256: built.contentHash,
+            contentType: "application/javascript+module",
+          },
+        ],
+        compatibilityDate: workerOpts.compatibilityDate ?? DEFAULT_COMPATIBILITY_DATE,
+        compatibilityFlags: workerOpts.compatibilityFlags ?? DEFAULT_COMPATIBILITY_FLAGS,
+        bindings: [
+          ...toWorkerBindings(workerOpts.bindings, resources, options.secrets),
+          ...(workerOpts.assets ? [{ type: "assets", name: workerOpts.assets.binding ?? DEFAULT_ASSETS_BINDING }] : []),
+        ],
+        placement: placement.mode === "smart" ? { mode: "smart" } : undefined,
+        assets: workerOpts.assets ? toWorkerAssets(workerOpts.assets, rootDir) : undefined,
+        migrations: toVersionMigrations(migrations),
+      },
+      accountId,
+      [
+        ...dependencies.map((dependency) => resources.workers.get(dependency)!.deployment),
+        ...migrationDependencies(workerOpts.bindings, resources),
+      ]
+    );
+    resources.workers.set(name, deployed);
+
+    if (migrations) {
+      new DurableObjectMigrations(
+        migrationsResourceName(name),
+        { scriptName: physicalName(config.app, name), migrations: migrations.applied },
+        { dependsOn: [deployed.deployment] }
+      );
+    }
+  }
+}
+
+/** Static sites deploy as workers that only serve assets */
+function provisionStaticSites(
+  config: ResourceRegistry,
+  options: ProgramOptions,
+  resources: ProvisionedResources
+): void {
+  const { accountId, manifest } = options;
+
+  for (const { name, options: siteOpts } of config.staticSites) {
+    const built = manifest.staticSites.find((site) => site.name === name);
+    if (!built) {
+      throw new LumierError(`StaticSite "${name}" has not been built`, "BUILD_MISSING");
+    }
+
+    const deployed = deployWorker(
+      name,
+      physicalName(config.app, name),
+      { url: !siteOpts.domain, domain: siteOpts.domain },
+      {
+        compatibilityDate: DEFAULT_COMPATIBILITY_DATE,
+        assets: {
+          directory: built.outputDir,
+          config: {
+            notFoundHandling: siteOpts.notFoundHandling ?? "404-page",
+            htmlHandling: siteOpts.htmlHandling ?? "auto-trailing-slash",
+            runWorkerFirst: siteOpts.runWorkerFirst ?? false,
+          },
+        },
+      },
+      accountId
+    );
+    resources.workers.set(name, deployed);
+  }
+}
+
+function provisionTriggers(config: ResourceRegistry, accountId: string, resources: ProvisionedResources): void {
+  function lookupWorker(kind: string, name: string, workerName: string): DeployedWorker {
+    const worker = resources.workers.get(workerName);
+    if (!worker) {
+      throw new LumierError(
+        `${kind} "${name}" references worker "${workerName}" which is not registered`,
+        "UNKNOWN_RESOURCE"
+      );
+    }
+    return worker;
+  }
+
+  for (const { name, options } of config.queues) {
+    const consumer = options?.consumer;
+    if (!consumer) continue;
+
+    const queue = resources.queues.get(name)!;
+    const worker = lookupWorker("Queue", name, consumer.worker.name);
+    const settings = consumer.settings;
+
+    const deadLetter = options.deadLetterQueue;
+    const deadLetterQueue =
+      typeof deadLetter === "object"
+        ? (resources.queues.get(deadLetter.name)?.queueName ?? deadLetter._ref.queueName)
+        : deadLetter;
+
+    const args = applyTransform<cloudflare.QueueConsumerArgs>(
+      {
+        accountId,
+        queueId: queue.queueId,
+        type: "worker",
+        scriptName: worker.scriptName,
+        deadLetterQueue,
+        settings: settings && {
+          batchSize: settings.batchSize,
+          maxRetries: settings.maxRetries,
+          maxConcurrency: settings.maxConcurrency,
+          maxWaitTimeMs: settings.batchTimeout === undefined ? undefined : settings.batchTimeout * 1000,
+          retryDelay: settings.retryDelay,
+        },
+      },
+      options.transform?.consumer
+    );
+    new cloudflare.QueueConsumer(`queue-${name}`, args, { dependsOn: [worker.deployment] });
+  }
+
+  const cronsByWorker = new Map<string, string[]>();
+  for (const { name, options } of config.crons) {
+    lookupWorker("Cron", name, options.worker.name);
+    const schedules = cronsByWorker.get(options.worker.name) ?? [];
+    schedules.push(options.schedule);
+    cronsByWorker.set(options.worker.name, schedules);
+  }
+
+  for (const [workerName, schedules] of cronsByWorker) {
+    const worker = resources.workers.get(workerName)!;
+    new cloudflare.WorkersCronTrigger(
+      `cron-${workerName}`,
+      { accountId, scriptName: worker.scriptName, schedules: schedules.map((cron) => ({ cron })) },
+      { dependsOn: [worker.deployment] }
+    );
+  }
+}
+
+// ============================================================================
+// Outputs
+// ============================================================================
+
+/**
+ * Map placeholder values (as returned by resource functions at config time)
+ * to the real values known after deploy.
+ */
+function collectPlaceholders(
+  config: ResourceRegistry,
+  resources: ProvisionedResources
+): Map<string, pulumi.Output<string>> {
+  const placeholders = new Map<string, pulumi.Output<string>>();
+
+  for (const [name, worker] of resources.workers) {
+    placeholders.set(`https://${physicalName(config.app, name)}.workers.dev`, worker.url);
+  }
+  for (const [name, kv] of resources.kvs) {
+    placeholders.set(`kv-${name}`, kv.id);
+  }
+  for (const [name, d1] of resources.d1s) {
+    placeholders.set(`d1-${name}`, d1.id);
+  }
+  for (const [name, hyperdrive] of resources.hyperdrives) {
+    placeholders.set(`hyperdrive-${name}`, hyperdrive.id);
+  }
+
+  return placeholders;
+}
+
+function resolveOutputs(value: unknown, placeholders: Map<string, pulumi.Output<string>>): unknown {
+  if (typeof value === "string") {
+    return placeholders.get(value) ?? value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveOutputs(item, placeholders));
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolveOutputs(item, placeholders)]));
+  }
+  return value;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Create an inline Pulumi program that provisions every registry entry.
+ *
+ * The returned function can be run by the Automation API or directly under
+ * `pulumi.runtime.setMocks()`.
+ */
+export function createProgram(config: ResourceRegistry, options: ProgramOptions): PulumiFn {
+  // biome-ignore lint/suspicious/useAwait: PulumiFn must return a promise
+  return async () => {
+    const resources: ProvisionedResources = {
+      buckets: new Map(),
+      kvs: new Map(),
+      d1s: new Map(),
+      d1Migrations: new Map(),
+      queues: new Map(),
+      vectorizes: new Map(),
+      hyperdrives: new Map(),
+      workers: new Map(),
+    };
+
+    provisionStorage(config, options, resources);
+    provisionWorkers(config, options, resources);
+    provisionStaticSites(config, options, resources);
+    provisionTriggers(config, options.accountId, resources);
+
+    return resolveOutputs(config.outputs, collectPlaceholders(config, resources)) as Record<string, unknown>;
+  };
+}
+
+/**
+ * Select the Pulumi stack for a stage, creating it only when asked.
+ *
+ * State is kept in a local file backend under `.lumier/` unless
+ * PULUMI_BACKEND_URL is set.
+ */
+export async function selectStack(config: ResourceRegistry, options: StackOptions): Promise<Stack> {
+  const { stage, lumierDir, credentials, program, create = false } = options;
+
+  let backendUrl = process.env.PULUMI_BACKEND_URL;
+  if (!backendUrl) {
+    const stacksDir = path.join(lumierDir, STACKS_DIR_NAME);
+    await fs.mkdir(stacksDir, { recursive: true });
+    backendUrl = `file://${stacksDir}`;
+  }
+
+  const workspaceOptions = {
+    projectSettings: { name: config.app.name, runtime: "nodejs" as const, backend: { url: backendUrl } },
+    envVars: {
+      PULUMI_CONFIG_PASSPHRASE: process.env.PULUMI_CONFIG_PASSPHRASE ?? "",
+      ...(credentials && { CLOUDFLARE_API_TOKEN: credentials.apiToken }),
+    },
+  };
+
+  // No program runs when only reading or destroying state
+  const args = { projectName: config.app.name, stackName: stage, program: program ?? (async () => ({})) };
+  if (create) return await LocalWorkspace.createOrSelectStack(args, workspaceOptions);
+
+  try {
+    return await LocalWorkspace.selectStack(args, workspaceOptions);
+  } catch (error) {
+    if (error instanceof StackNotFoundError) {
+      throw new LumierError(`Stage "${stage}" has not been deployed`, "NOT_DEPLOYED");
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Local Queues
+ *
+ * Consumer options for the queues `lumier dev` runs in Miniflare, which
+ * implements batching, retries, retry delay and dead letter queues the way a
+ * deployed consumer does.
+ */
+
+import type { QueueOptions, ResourceRegistry } from "../../sdk/index.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Miniflare consumer options of a queue */
+export interface LocalQueueConsumer {
+  maxBatchSize?: number;
+  maxBatchTimeout?: number;
+  maxRetries?: number;
+  retryDelay?: number;
+  deadLetterQueue?: string;
+}
+
+// ============================================================================
+// Consumers
+// ============================================================================
+
+/**
+ * Dev queue ID of a dead letter queue, as the Queue's name or the given name
+ */
+function deadLetterQueueName(deadLetter: QueueOptions["deadLetterQueue"]): string | undefined {
+  return typeof deadLetter === "object" ? deadLetter.name : deadLetter;
+}
+
+/**
+ * Miniflare consumer options for the queues a worker consumes. Settings map
+ * to their deployed counterparts; `maxConcurrency` has no local equivalent.
+ */
+export function buildQueueConsumers(config: ResourceRegistry, workerName: string): Record<string, LocalQueueConsumer> {
+  const consumers: Record<string, LocalQueueConsumer> = {};
+  for (const { name, options } of config.queues) {
+    const consumer = options?.consumer;
+    if (consumer?.worker.name !== workerName) continue;
+
+    consumers[name] = {
+      maxBatchSize: consumer.settings?.batchSize,
+      maxBatchTimeout: consumer.settings?.batchTimeout,
+      maxRetries: consumer.settings?.maxRetries,
+      retryDelay: consumer.settings?.retryDelay,
+      deadLetterQueue: deadLetterQueueName(options?.deadLetterQueue),
+    };
+  }
+  return consumers;
+}
@@ -0,0 +1,237 @@
+/**
+ * Encrypted Secret Storage
+ *
+ * Secrets are stored per stage in `.lumier/secrets/<stage>`, encrypted with
+ * AES-256-GCM using the project key in `.lumier/.key`.
+ */
+
+import * as crypto from "node:crypto";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { ResourceRegistry, SecretOutput } from "../../sdk/index.js";
+import { KEY_FILE_NAME, SECRETS_DIR_NAME } from "./constants.js";
+import { isSecret, LumierError, validateSecretKey } from "./utils.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SecretStore = Record<string, string>;
+
+interface EncryptedStore {
+  version: 1;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+
+// ============================================================================
+// Key Management
+// ============================================================================
+
+async function loadKey(lumierDir: string, create: boolean): Promise<Buffer | null> {
+  const keyPath = path.join(lumierDir, KEY_FILE_NAME);
+
+  try {
+    const key = Buffer.from((await fs.readFile(keyPath, "utf-8")).trim(), "base64");
+    if (key.length !== KEY_LENGTH) {
+      throw new LumierError(`Invalid encryption key in ${KEY_FILE_NAME}`, "INVALID_KEY");
+    }
+    return key;
+  } catch (error) {
+    if (error instanceof LumierError) throw error;
+    if (!create) return null;
+  }
+
+  const key = crypto.randomBytes(KEY_LENGTH);
+  await fs.mkdir(lumierDir, { recursive: true });
+  await fs.writeFile(keyPath, key.toString("base64"), { mode: 0o600 });
+  return key;
+}
+
+function getStorePath(lumierDir: string, stage: string): string {
+  return path.join(lumierDir, SECRETS_DIR_NAME, stage);
+}
+
+// ============================================================================
+// Read / Write
+// ============================================================================
+
+/**
+ * Decrypt the secret store for a stage (empty if none exists)
+ */
+export async function readSecrets(lumierDir: string, stage: string): Promise<SecretStore> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(getStorePath(lumierDir, stage), "utf-8");
+  } catch {
+    return {};
+  }
+
+  const key = await loadKey(lumierDir, false);
+  if (!key) {
+    throw new LumierError(
+      `Cannot decrypt secrets for stage "${stage}": ${KEY_FILE_NAME} is missing`,
+      "MISSING_KEY",
+      `Restore ${path.join(lumierDir, KEY_FILE_NAME)} or remove the stage's secrets and set them again`
+    );
+  }
+
+  try {
+    const store = JSON.parse(raw) as EncryptedStore;
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(store.iv, "base64"));
+    decipher.setAuthTag(Buffer.from(store.tag, "base64"));
+    const plaintext = Buffer.concat([decipher.update(Buffer.from(store.data, "base64")), decipher.final()]);
+    return JSON.parse(plaintext.toString("utf-8")) as SecretStore;
+  } catch {
+    throw new LumierError(`Cannot decrypt secrets for stage "${stage}"`, "DECRYPT_FAILED", "The key may have changed");
+  }
+}
+
+/**
+ * Encrypt and write the secret store for a stage
+ */
+export async function writeSecrets(lumierDir: string, stage: string, secrets: SecretStore): Promise<void> {
+  const key = (await loadKey(lumierDir, true))!;
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(secrets), "utf-8"), cipher.final()]);
+
+  const store: EncryptedStore = {
+    version: 1,
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+
+  const storePath = getStorePath(lumierDir, stage);
+  await fs.mkdir(path.dirname(storePath), { recursive: true });
+  await fs.writeFile(storePath, JSON.stringify(store), { mode: 0o600 });
+}
+
+// ============================================================================
+// Dotenv
+// ============================================================================
+
+const DOTENV_LINE_REGEX = /^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*)?\s*$/;
+const LINE_BREAK_REGEX = /\r?\n/;
+const INLINE_COMMENT_REGEX = /\s+#.*$/;
+
+/**
+ * Parse KEY=value lines from a dotenv file
+ */
+export function parseDotenv(content: string): SecretStore {
+  const result: SecretStore = {};
+
+  for (const line of content.split(LINE_BREAK_REGEX)) {
+    if (!line.trim() || line.trimStart().startsWith("#")) continue;
+
+    const match = line.match(DOTENV_LINE_REGEX);
+    if (!match) continue;
+
+    let value = (match[2] ?? "").trim();
+    const quote = value[0];
+    if ((quote === '"' || quote === "'") && value.endsWith(quote) && value.length > 1) {
+      value = value.slice(1, -1);
+      if (quote === '"') value = value.replaceAll("\\n", "\n");
+    } else {
+      value = value.replace(INLINE_COMMENT_REGEX, "");
+    }
+
+    result[match[1]!] = value;
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Runtime Context
+// ============================================================================
+
+const REDACTED = "[redacted]";
+
+/** Properties probed by runtimes and serializers that must not throw */
+const PASSTHROUGH_PROPS = new Set(["then", "toJSON", "constructor", "asymmetricMatch", "$$typeof"]);
+
+/**
+ * Create the read-only `ctx.secrets` object passed to `run()`.
+ *
+ * Accessing an unknown key throws with a hint to set it, and serializing or
+ * inspecting the object only reveals key names.
+ */
+export function createSecretsProxy(secrets: SecretStore, stage: string): Readonly<SecretStore> {
+  const values = new Map(Object.entries(secrets));
+  // Loggers inspect the proxy target directly, so it only ever holds redacted values
+  const target: SecretStore = Object.fromEntries(Object.keys(secrets).map((key) => [key, REDACTED]));
+
+  return new Proxy(target, {
+    get(_obj, prop) {
+      if (prop === "toJSON") {
+        return () => target;
+      }
+      if (typeof prop === "symbol" || PASSTHROUGH_PROPS.has(prop)) {
+        return undefined;
+      }
+      if (!values.has(prop)) {
+        throw new LumierError(
+          `Secret "${prop}" is not set for stage "${stage}"`,
+          "MISSING_SECRETS",
+          `Set it with: lumier secret set ${prop} --stage ${stage}`
+        );
+      }
+      return values.get(prop);
+    },
+    set(_obj, prop) {
+      throw new LumierError(`Cannot assign ctx.secrets.${String(prop)}: secrets are read-only`, "READ_ONLY");
+    },
+    defineProperty(_obj, prop) {
+      throw new LumierError(`Cannot assign ctx.secrets.${String(prop)}: secrets are read-only`, "READ_ONLY");
+    },
+    deleteProperty(_obj, prop) {
+      throw new LumierError(`Cannot delete ctx.secrets.${String(prop)}: secrets are read-only`, "READ_ONLY");
+    },
+  });
+}
+
+// ============================================================================
+// Binding Resolution
+// ============================================================================
+
+/**
+ * Resolve a Secret() binding to its stored value, falling back to the placeholder
+ */
+export function resolveSecret(secret: SecretOutput, secrets: SecretStore): string | undefined {
+  return secrets[secret.name] ?? secret.placeholder;
+}
+
+/**
+ * Ensure every Secret() binding has a stored value or a placeholder
+ */
+export function assertSecretsAvailable(config: ResourceRegistry, secrets: SecretStore): void {
+  const missing = new Map<string, string[]>();
+
+  for (const worker of config.workers) {
+    for (const value of Object.values(worker.options.bindings ?? {})) {
+      if (isSecret(value) && resolveSecret(value, secrets) === undefined) {
+        validateSecretKey(value.name);
+        const workers = missing.get(value.name) ?? [];
+        workers.push(worker.name);
+        missing.set(value.name, workers);
+      }
+    }
+  }
+
+  if (missing.size === 0) return;
+
+  const lines = Array.from(missing, ([name, workers]) => `  ${name} (used by ${workers.join(", ")})`);
+  const stage = config.app.stage;
+  throw new LumierError(
+    `Missing secrets for stage "${stage}":\n${lines.join("\n")}`,
+    "MISSING_SECRETS",
+    `Set them with: lumier secret set <NAME> --stage ${stage}`
+  );
+}
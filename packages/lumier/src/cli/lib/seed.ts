@@ -0,0 +1,241 @@
+/**
+ * Local Seed Data
+ *
+ * Fills the local stores `lumier dev` persists from the `seed` options of
+ * D1, KV and Bucket. Each resource is seeded once per persist directory, as
+ * recorded in `seeded.json` there; `dev --reseed` and `lumier seed` apply
+ * the seeds again.
+ */
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { D1SeedDatabase, ResourceRegistry } from "../../sdk/index.js";
+import type { LocalStores } from "./local-stores.js";
+import { LumierError } from "./utils.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SeedOptions {
+  rootDir: string;
+  /** Where the seed state is recorded */
+  persistDir: string;
+  stores: LocalStores;
+  /** Apply seeds again even if they were applied before */
+  force?: boolean;
+  /** Called after each resource is seeded, e.g. `KV "cache"` */
+  onSeeded?: (resource: string) => void;
+}
+
+/** Kind of resource a seed fills */
+export type SeedKind = "d1" | "kv" | "bucket";
+
+type SeedTarget =
+  | { kind: "d1"; name: string; seed: string | ((db: D1SeedDatabase) => Promise<void>) }
+  | { kind: "kv"; name: string; seed: string }
+  | { kind: "bucket"; name: string; seed: string };
+
+/** Entry of a KV seed file (the format of `wrangler kv bulk put`) */
+interface KVSeedEntry {
+  key: string;
+  value: unknown;
+  metadata?: unknown;
+  expiration?: number;
+  expiration_ttl?: number;
+  /** `value` is base64-encoded binary data */
+  base64?: boolean;
+}
+
+export const SEED_STATE_FILE = "seeded.json";
+
+const TARGET_LABELS: Record<SeedKind, string> = { d1: "D1", kv: "KV", bucket: "Bucket" };
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".css": "text/css",
+  ".csv": "text/csv",
+  ".gif": "image/gif",
+  ".html": "text/html",
+  ".jpeg": "image/jpeg",
+  ".jpg": "image/jpeg",
+  ".js": "text/javascript",
+  ".json": "application/json",
+  ".md": "text/markdown",
+  ".mp4": "video/mp4",
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".svg": "image/svg+xml",
+  ".txt": "text/plain",
+  ".webp": "image/webp",
+  ".xml": "application/xml",
+};
+
+function targetId(target: SeedTarget): string {
+  return `${target.kind}:${target.name}`;
+}
+
+function targetLabel(target: SeedTarget): string {
+  return `${TARGET_LABELS[target.kind]} "${target.name}"`;
+}
+
+/**
+ * Every resource in the registry that has a `seed` option
+ */
+function seedTargets(config: ResourceRegistry): SeedTarget[] {
+  const targets: SeedTarget[] = [];
+  for (const { name, options } of config.d1s) {
+    if (options?.seed) targets.push({ kind: "d1", name, seed: options.seed });
+  }
+  for (const { name, options } of config.kvs) {
+    if (options?.seed) targets.push({ kind: "kv", name, seed: options.seed });
+  }
+  for (const { name, options } of config.buckets) {
+    if (options?.seed) targets.push({ kind: "bucket", name, seed: options.seed });
+  }
+  return targets;
+}
+
+// ============================================================================
+// Seed State
+// ============================================================================
+
+async function readSeedState(persistDir: string): Promise<Record<string, string>> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(persistDir, SEED_STATE_FILE), "utf-8"));
+  } catch {
+    return {};
+  }
+}
+
+async function writeSeedState(persistDir: string, state: Record<string, string>): Promise<void> {
+  await fs.mkdir(persistDir, { recursive: true });
+  await fs.writeFile(path.join(persistDir, SEED_STATE_FILE), `${JSON.stringify(state, null, 2)}\n`);
+}
+
+/**
+ * Forget that resources were seeded, so `lumier dev` seeds them again
+ */
+export async function forgetSeeds(
+  persistDir: string,
+  resources: Array<{ kind: SeedKind; name: string }>
+): Promise<void> {
+  const state = await readSeedState(persistDir);
+  const ids = resources.map(({ kind, name }) => `${kind}:${name}`).filter((id) => id in state);
+  if (ids.length === 0) return;
+
+  for (const id of ids) delete state[id];
+  await writeSeedState(persistDir, state);
+}
+
+// ============================================================================
+// Seeding
+// ============================================================================
+
+async function readSeedFile(rootDir: string, file: string): Promise<string> {
+  try {
+    return await fs.readFile(path.resolve(rootDir, file), "utf-8");
+  } catch {
+    throw new Error(`cannot read ${file}`);
+  }
+}
+
+async function seedD1(stores: LocalStores, target: SeedTarget & { kind: "d1" }, rootDir: string) {
+  const client = await stores.d1(target.name);
+
+  if (typeof target.seed === "string") {
+    await client.query(await readSeedFile(rootDir, target.seed));
+  } else {
+    await target.seed({ query: async (sql, params) => (await client.query(sql, params)).rows });
+  }
+}
+
+async function seedKV(stores: LocalStores, name: string, file: string, rootDir: string): Promise<void> {
+  const entries = JSON.parse(await readSeedFile(rootDir, file)) as KVSeedEntry[];
+  if (!Array.isArray(entries)) {
+    throw new Error(`${file} must contain an array of { key, value } entries`);
+  }
+
+  const kv = await stores.kv(name);
+  for (const entry of entries) {
+    const value =
+      typeof entry.value === "string"
+        ? entry.base64
+          ? new Uint8Array(Buffer.from(entry.value, "base64"))
+          : entry.value
+        : JSON.stringify(entry.value);
+
+    await kv.put(entry.key, value, {
+      metadata: entry.metadata,
+      expiration: entry.expiration,
+      expirationTtl: entry.expiration_ttl,
+    });
+  }
+}
+
+async function seedBucket(stores: LocalStores, name: string, directory: string, rootDir: string): Promise<void> {
+  const dir = path.resolve(rootDir, directory);
+  let files: string[];
+  try {
+    files = await fs.readdir(dir, { recursive: true });
+  } catch {
+    throw new Error(`cannot read ${directory}`);
+  }
+
+  const bucket = await stores.bucket(name);
+  for (const file of files) {
+    const filePath = path.join(dir, file);
+    if (!(await fs.stat(filePath)).isFile()) continue;
+
+    // Miniflare's R2 proxy takes plain byte arrays, not Buffers
+    await bucket.put(file.split(path.sep).join("/"), new Uint8Array(await fs.readFile(filePath)), {
+      httpMetadata: { contentType: CONTENT_TYPES[path.extname(file).toLowerCase()] },
+    });
+  }
+}
+
+/**
+ * Apply the seeds of resources that have not been seeded in this persist
+ * directory yet (or all of them with `force`)
+ *
+ * @returns labels of the seeded resources
+ */
+export async function seedLocalStores(config: ResourceRegistry, options: SeedOptions): Promise<string[]> {
+  const { rootDir, persistDir, stores, force = false } = options;
+  const state = await readSeedState(persistDir);
+  const targets = seedTargets(config).filter((target) => force || !state[targetId(target)]);
+  if (targets.length === 0) return [];
+
+  const seeded: string[] = [];
+
+  for (const target of targets) {
+    try {
+      if (target.kind === "d1") {
+        await seedD1(stores, target, rootDir);
+      } else if (target.kind === "kv") {
+        await seedKV(stores, target.name, target.seed, rootDir);
+      } else {
+        await seedBucket(stores, target.name, target.seed, rootDir);
+      }
+    } catch (error) {
+      throw new LumierError(
+        `${targetLabel(target)}: seed failed: ${error instanceof Error ? error.message : String(error)}`,
+        "SEED_FAILED"
+      );
+    }
+
+    // Recorded one at a time, so a failure does not reapply earlier seeds
+    state[targetId(target)] = new Date().toISOString();
+    await writeSeedState(persistDir, state);
+    seeded.push(targetLabel(target));
+    options.onSeeded?.(targetLabel(target));
+  }
+
+  return seeded;
+}
+
+/**
+ * Check whether any resource has a `seed` option
+ */
+export function hasSeeds(config: ResourceRegistry): boolean {
+  return seedTargets(config).length > 0;
+}
@@ -0,0 +1,264 @@
+/**
+ * Site Builds
+ *
+ * A StaticSite's `buildCommand` runs in its `path` and writes to
+ * `buildOutput` (relative to `path`, or `path` itself). An SSR site's
+ * framework build runs in its `path` and writes its worker's entry and
+ * assets. Builds are skipped while the site's files hash the same as after
+ * its last build, which is kept in `.lumier/build/sites.json`.
+ */
+
+import { spawn } from "node:child_process";
+import { createHash } from "node:crypto";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { ResourceRegistry, SSRFramework, StaticSiteOptions } from "../../sdk/index.js";
+import { BUILD_DIR_NAME } from "./constants.js";
+import type { StaticSiteBuildInfo } from "./types.js";
+import { LumierError, log } from "./utils.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SiteBuildOptions {
+  rootDir: string;
+  lumierDir: string;
+  silent?: boolean;
+}
+
+/** A site build: `command` runs in `sourceDir` and writes `output` */
+interface SiteBuild {
+  name: string;
+  /** The site in messages, e.g. `StaticSite "docs"` */
+  resource: string;
+  sourceDir: string;
+  command: string;
+  output: string;
+}
+
+const SITES_STATE_FILE = "sites.json";
+
+/** Cloudflare adapter each SSR site's build relies on */
+const FRAMEWORK_ADAPTERS: Record<SSRFramework, string> = {
+  Astro: "@astrojs/cloudflare",
+  ReactRouter: "@cloudflare/vite-plugin",
+  SvelteKit: "@sveltejs/adapter-cloudflare",
+  Nextjs: "@opennextjs/cloudflare",
+};
+
+/** Lines of build output shown when a build command fails */
+const FAILED_OUTPUT_LINES = 20;
+
+// ============================================================================
+// Paths
+// ============================================================================
+
+/**
+ * Directory a site's build command runs in
+ */
+export function siteSourceDir(options: StaticSiteOptions, rootDir: string): string {
+  return path.resolve(rootDir, options.path);
+}
+
+/**
+ * Directory of the files a site serves
+ */
+export function siteOutputDir(options: StaticSiteOptions, rootDir: string): string {
+  return path.resolve(rootDir, options.path, options.buildOutput ?? "");
+}
+
+// ============================================================================
+// Input Hash
+// ============================================================================
+
+/**
+ * Files of a site's source directory, skipping dependencies and hidden
+ * directories (VCS, framework caches)
+ */
+async function sourceFiles(dir: string, relative = ""): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await fs.readdir(path.join(dir, relative), { withFileTypes: true });
+
+  for (const entry of entries) {
+    const entryPath = path.join(relative, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name === "node_modules" || entry.name.startsWith(".")) continue;
+      files.push(...(await sourceFiles(dir, entryPath)));
+    } else if (entry.isFile()) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Hash of a site's build command and the files in its source directory
+ */
+async function hashSiteInputs(build: SiteBuild): Promise<string> {
+  const hash = createHash("sha256").update(build.command);
+
+  for (const file of (await sourceFiles(build.sourceDir)).sort()) {
+    hash.update(file);
+    hash.update(await fs.readFile(path.join(build.sourceDir, file)));
+  }
+  return hash.digest("hex");
+}
+
+async function readSiteHashes(buildDir: string): Promise<Record<string, string>> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(buildDir, SITES_STATE_FILE), "utf-8")) as Record<string, string>;
+  } catch {
+    return {};
+  }
+}
+
+async function writeSiteHashes(buildDir: string, hashes: Record<string, string>): Promise<void> {
+  await fs.mkdir(buildDir, { recursive: true });
+  await fs.writeFile(path.join(buildDir, SITES_STATE_FILE), `${JSON.stringify(hashes, null, 2)}\n`);
+}
+
+// ============================================================================
+// Build
+// ============================================================================
+
+async function runBuildCommand(build: SiteBuild): Promise<void> {
+  const { resource, command } = build;
+  const output: Buffer[] = [];
+
+  const code = await new Promise<number>((resolve, reject) => {
+    const child = spawn(command, { cwd: build.sourceDir, shell: true, stdio: ["ignore", "pipe", "pipe"] });
+    child.stdout.on("data", (chunk: Buffer) => output.push(chunk));
+    child.stderr.on("data", (chunk: Buffer) => output.push(chunk));
+    child.on("error", (error) => {
+      reject(new LumierError(`${resource}: failed to run ${command}: ${error.message}`, "BUILD_FAILED"));
+    });
+    child.on("exit", (exitCode, signal) => resolve(exitCode ?? (signal ? 1 : 0)));
+  });
+
+  if (code !== 0) {
+    const lines = Buffer.concat(output).toString().trimEnd().split("\n").slice(-FAILED_OUTPUT_LINES);
+    throw new LumierError(
+      `${resource}: ${command} exited with code ${code}`,
+      "BUILD_FAILED",
+      lines.join("\n") || undefined
+    );
+  }
+}
+
+function pathExists(target: string): Promise<boolean> {
+  return fs.stat(target).then(
+    () => true,
+    () => false
+  );
+}
+
+function isDirectory(dir: string): Promise<boolean> {
+  return fs.stat(dir).then(
+    (stat) => stat.isDirectory(),
+    () => false
+  );
+}
+
+/**
+ * Run a site's build command unless its inputs hash the same as after its
+ * last build and its output exists, updating `hashes`. Returns the site's
+ * input hash.
+ */
+async function runSiteBuild(
+  build: SiteBuild,
+  hashes: Record<string, string>,
+  options: SiteBuildOptions
+): Promise<string> {
+  const { name, command } = build;
+  const { lumierDir, silent = false } = options;
+  const inputHash = await hashSiteInputs(build);
+
+  if (hashes[name] === inputHash && (await pathExists(build.output))) {
+    if (!silent) log(`+ ${name}`, "Up to date");
+    return inputHash;
+  }
+
+  if (!silent) log(`->  ${name}`, `Running ${command}...`);
+  await runBuildCommand(build);
+
+  // Hashed after the build, so outputs written inside the source directory count as unchanged
+  hashes[name] = await hashSiteInputs(build);
+  await writeSiteHashes(path.join(lumierDir, BUILD_DIR_NAME), hashes);
+  if (!silent) log(`+ ${name}`, "Built");
+  return hashes[name];
+}
+
+/**
+ * Run the build command of every StaticSite whose inputs changed since its
+ * last build, and check that each site's output directory exists
+ */
+export async function buildStaticSites(
+  config: ResourceRegistry,
+  options: SiteBuildOptions
+): Promise<StaticSiteBuildInfo[]> {
+  const { rootDir, lumierDir } = options;
+  const hashes = await readSiteHashes(path.join(lumierDir, BUILD_DIR_NAME));
+  const built: StaticSiteBuildInfo[] = [];
+
+  for (const { name, options: siteOpts } of config.staticSites) {
+    const outputDir = siteOutputDir(siteOpts, rootDir);
+    const { buildCommand } = siteOpts;
+    const inputHash = buildCommand
+      ? await runSiteBuild(
+          {
+            name,
+            resource: `StaticSite "${name}"`,
+            sourceDir: siteSourceDir(siteOpts, rootDir),
+            command: buildCommand,
+            output: outputDir,
+          },
+          hashes,
+          options
+        )
+      : undefined;
+
+    if (!(await isDirectory(outputDir))) {
+      throw new LumierError(
+        `StaticSite "${name}": ${path.relative(rootDir, outputDir) || "."} does not exist`,
+        "BUILD_MISSING",
+        buildCommand
+          ? "Check that buildOutput matches where the build writes"
+          : "Set buildCommand, or build the site first"
+      );
+    }
+
+    built.push({ name, outputDir, inputHash });
+  }
+
+  return built;
+}
+
+/**
+ * Run the framework build of every SSR site whose inputs changed since its
+ * last build, and check that it wrote the worker entry
+ */
+export async function buildSSRSites(config: ResourceRegistry, options: SiteBuildOptions): Promise<void> {
+  const { rootDir, lumierDir } = options;
+  const hashes = await readSiteHashes(path.join(lumierDir, BUILD_DIR_NAME));
+
+  for (const { name, options: workerOpts, site } of config.workers) {
+    if (!site) continue;
+
+    const resource = `${site.framework} "${name}"`;
+    const entry = path.resolve(rootDir, workerOpts.entry);
+    await runSiteBuild(
+      { name, resource, sourceDir: path.resolve(rootDir, site.path), command: site.buildCommand, output: entry },
+      hashes,
+      options
+    );
+
+    if (!(await pathExists(entry))) {
+      throw new LumierError(
+        `${resource}: ${site.buildCommand} did not write ${workerOpts.entry}`,
+        "BUILD_MISSING",
+        `Check that the app builds with ${FRAMEWORK_ADAPTERS[site.framework]}`
+      );
+    }
+  }
+}
@@ -13,10 +13,25 @@ export interface WorkerBuildInfo {
   entry: string;
   outputPath: string;
   bundleSize: number;
+  /** Hash of the build settings and `inputs`; the bundle is reused while it matches */
+  inputHash: string;
+  /** Files the bundle was built from, relative to the project root */
+  inputs: string[];
+  /** SHA-256 of the bundle, which deploys compare to skip uploading an unchanged script */
+  contentHash: string;
+}
+
+export interface StaticSiteBuildInfo {
+  name: string;
+  /** Directory the site serves */
+  outputDir: string;
+  /** Hash of the site's inputs after its last build (sites with a buildCommand) */
+  inputHash?: string;
 }
 
 export interface BuildManifest {
   timestamp: string;
   stage: string;
   workers: WorkerBuildInfo[];
+  staticSites: StaticSiteBuildInfo[];
 }
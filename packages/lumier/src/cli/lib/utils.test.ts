@@ -0,0 +1,20 @@
+import { describe, expect, test } from "bun:test";
+import { isStageActionAllowed } from "./utils.js";
+
+describe("isStageActionAllowed", () => {
+  const app = { protect: ["production"] };
+
+  test("refuses to deploy or destroy a protected stage", () => {
+    expect(isStageActionAllowed(app, "production", "deploy")).toBe(false);
+    expect(isStageActionAllowed(app, "production", "destroy")).toBe(false);
+  });
+
+  test("previews a protected stage", () => {
+    expect(isStageActionAllowed(app, "production", "preview")).toBe(true);
+  });
+
+  test("allows every action on other stages", () => {
+    expect(isStageActionAllowed(app, "staging", "deploy")).toBe(true);
+    expect(isStageActionAllowed({}, "production", "destroy")).toBe(true);
+  });
+});
@@ -1,6 +1,13 @@
 import * as fs from "node:fs/promises";
 import * as z from "zod";
-import { type BindingValue, type LinkableResource, ResourceNameSchema } from "../../sdk/index.js";
+import {
+  type BindingValue,
+  getLateRegistrations,
+  type LinkableResource,
+  ResourceNameSchema,
+  type ResourceRegistry,
+  type SecretOutput,
+} from "../../sdk/index.js";
 import { colors } from "./constants.js";
 
 export { colors };
@@ -61,6 +68,13 @@ export function isLinkableResource(value: unknown): value is LinkableResource {
   return typeof value === "object" && value !== null && "type" in value && "_ref" in value;
 }
 
+/**
+ * Check if a binding value is a Secret() reference
+ */
+export function isSecret(value: unknown): value is SecretOutput {
+  return typeof value === "object" && value !== null && "type" in value && value.type === "secret";
+}
+
 // ============================================================================
 // Validation Schemas
 // ============================================================================
@@ -128,6 +142,17 @@ export function validateStageName(stage: string): void {
   }
 }
 
+/** Stage actions the `protect` list refers to */
+export type StageAction = "deploy" | "preview" | "destroy";
+
+/**
+ * Whether an action may run on a stage. Protected stages refuse deploy and
+ * destroy; a preview changes nothing, so it checks them for drift.
+ */
+export function isStageActionAllowed(app: { protect?: string[] }, stage: string, action: StageAction): boolean {
+  return action === "preview" || !app.protect?.includes(stage);
+}
+
 /**
  * Validate a port number
  */
@@ -165,10 +190,50 @@ export function parsePort(value: string | undefined, defaultPort: number = 8787)
   return port;
 }
 
+/**
+ * Ensure no resources were registered after run() resolved. Only covers
+ * registrations made by the time it is called.
+ */
+export function assertNoLateRegistrations(): void {
+  const late = getLateRegistrations();
+  if (late.length === 0) return;
+
+  throw new LumierError(
+    `Resources registered after run() resolved:\n${late.map((entry) => `  ${entry}`).join("\n")}`,
+    "LATE_REGISTRATION",
+    "Create resources inside run() and await any async work before returning"
+  );
+}
+
 // ============================================================================
 // Helpers
 // ============================================================================
 
+/**
+ * Physical (Cloudflare-side) name for a resource, scoped by app and stage
+ */
+export function physicalName(app: ResourceRegistry["app"], name: string): string {
+  return app.stage ? `${app.name}-${app.stage}-${name}` : `${app.name}-${name}`;
+}
+
+/**
+ * Import a module that depends on the optional Pulumi peer dependencies
+ */
+export async function importPulumiCommand<T>(load: () => Promise<T>): Promise<T> {
+  try {
+    return await load();
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("@pulumi/")) {
+      throw new LumierError(
+        "Deploying requires @pulumi/pulumi and @pulumi/cloudflare",
+        "MISSING_DEPENDENCY",
+        "Run: bun add -d @pulumi/pulumi @pulumi/cloudflare"
+      );
+    }
+    throw error;
+  }
+}
+
 /**
  * Check if a stage is production
  */
@@ -0,0 +1,135 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import {
+  Cron,
+  clearRegistry,
+  DurableObject,
+  getRegistry,
+  KV,
+  Queue,
+  ReactRouter,
+  SvelteKit,
+  Vectorize,
+  Worker,
+} from "../../sdk/index.js";
+import { LumierError } from "./utils.js";
+import { assertValidRegistry, cronExpressionError, validateRegistry } from "./validate.js";
+
+beforeEach(() => {
+  clearRegistry();
+  getRegistry().app = { name: "shop", stage: "test" };
+});
+
+function messages(options?: Parameters<typeof validateRegistry>[1]): string[] {
+  return validateRegistry(getRegistry(), options).map((issue) => `${issue.resource} ${issue.message}`);
+}
+
+describe("cronExpressionError", () => {
+  test("accepts the syntax of Cloudflare cron triggers", () => {
+    for (const expression of ["*/5 * * * *", "0 9-17 * * MON-FRI", "0 0 L * *", "0 0 15W * *", "0 0 * * 5#2"]) {
+      expect(cronExpressionError(expression)).toBeUndefined();
+    }
+  });
+
+  test("describes the first problem", () => {
+    expect(cronExpressionError("* * * *")).toBe(
+      "expected 5 fields (minute hour day-of-month month day-of-week), got 4"
+    );
+    expect(cronExpressionError("60 * * * *")).toBe('minute "60" is out of range (0-59)');
+    expect(cronExpressionError("*/0 * * * *")).toBe('step in "*/0" must be greater than 0');
+    expect(cronExpressionError("0 17-9 * * *")).toBe('range "17-9" is reversed');
+    expect(cronExpressionError("0 0 * JAN,,FEB *")).toBe("empty value in month");
+    expect(cronExpressionError("0 0 * * JAN")).toBe('day of week "JAN" is out of range (0-7)');
+  });
+});
+
+describe("validateRegistry", () => {
+  test("accepts a consistent registry", () => {
+    const cache = KV("cache");
+    const api = Worker("api", { entry: "src/api.ts", bindings: { CACHE: cache } });
+    Queue("jobs", { consumer: { worker: api } });
+    Cron("nightly", { worker: api, schedule: "0 0 * * *" });
+
+    expect(validateRegistry(getRegistry())).toEqual([]);
+  });
+
+  test("reports duplicate names", () => {
+    KV("cache");
+    KV("cache");
+
+    expect(messages()).toEqual(['KV "cache" is declared more than once']);
+  });
+
+  test("reports bindings to resources that are not registered", () => {
+    const cache = KV("cache");
+    Worker("api", { entry: "src/api.ts", bindings: { CACHE: cache } });
+    getRegistry().kvs = [];
+
+    expect(messages()).toEqual(['Worker "api" binding CACHE references KV "cache" which is not registered']);
+  });
+
+  test("warns about consumers that are not running", () => {
+    const api = Worker("api", { entry: "src/api.ts" });
+    const consumer = Worker("consumer", { entry: "src/consumer.ts" });
+    Queue("jobs", { consumer: { worker: consumer } });
+    Worker("web", { entry: "src/web.ts", bindings: { API: api } });
+
+    const issues = validateRegistry(getRegistry(), { workers: ["api"] });
+
+    expect(issues).toEqual([
+      expect.objectContaining({
+        severity: "warning",
+        resource: 'Queue "jobs"',
+        message: 'consumer Worker "consumer" is not running',
+      }),
+    ]);
+  });
+
+  test("reports a binding name used with different types", () => {
+    Worker("api", { entry: "src/api.ts", bindings: { STORE: KV("cache") } });
+    Worker("web", { entry: "src/web.ts", bindings: { STORE: "plain" } });
+
+    expect(messages()).toEqual(['Worker "web" binding STORE is a string binding, but Worker "api" binds STORE as kv']);
+  });
+
+  test("reports invalid options", () => {
+    const api = Worker("api", { entry: "src/api.ts" });
+    Cron("nightly", { worker: api, schedule: "0 0 * *" });
+    Vectorize("embeddings", { dimensions: 4096, metric: "cosine" });
+
+    expect(messages()).toEqual([
+      'Cron "nightly" invalid schedule "0 0 * *": expected 5 fields (minute hour day-of-month month day-of-week), got 4',
+      'Vectorize "embeddings" dimensions must be an integer between 1 and 1536, got 4096',
+    ]);
+  });
+
+  test("reports Durable Object migration tags reused on a worker", () => {
+    const api = Worker("api", { entry: "src/api.ts" });
+    DurableObject("rooms", { worker: api, className: "Room", migrations: [{ tag: "v1", newClass: true }] });
+    DurableObject("users", { worker: api, className: "User", migrations: [{ tag: "v1", newClass: true }] });
+    DurableObject("empty", { worker: api, className: "Empty", migrations: [{ tag: "v2" }] });
+
+    expect(messages()).toEqual([
+      'DurableObject "users" migration tag "v1" is already used by DurableObject "rooms" on Worker "api"',
+      'DurableObject "empty" migration "v2" needs a tag and one of newClass, renamedFrom, deletedClass or transferredFrom',
+    ]);
+  });
+
+  test("reports SSR sites sharing a dev server port only for dev", () => {
+    ReactRouter("app", { path: "apps/app" });
+    SvelteKit("admin", { path: "apps/admin" });
+
+    expect(messages()).toEqual([]);
+    expect(messages({ dev: true })).toEqual([
+      'SvelteKit "admin" runs its dev server on port 5173, as does ReactRouter "app"; set dev.port to another port',
+    ]);
+  });
+});
+
+describe("assertValidRegistry", () => {
+  test("throws when there are errors", () => {
+    KV("cache");
+    KV("cache");
+
+    expect(() => assertValidRegistry(getRegistry())).toThrow(LumierError);
+  });
+});
@@ -0,0 +1,405 @@
+/**
+ * Registry Validation
+ *
+ * Resource functions only validate their own arguments. This pass looks at
+ * the whole registry and collects every problem at once: duplicate names,
+ * references to resources that are not registered, conflicting binding
+ * types, invalid cron schedules, out-of-range Vectorize dimensions,
+ * malformed Durable Object migrations and, for `lumier dev`, SSR sites
+ * sharing a dev port.
+ */
+
+import { type BindingValue, formatLocation, type ResourceRegistry, type SourceLocation } from "../../sdk/index.js";
+import { CONFIG_FILENAME, colors, DEFAULT_ASSETS_BINDING } from "./constants.js";
+import { declaredMigrations } from "./durable-objects.js";
+import { isLinkableResource, isSecret, LumierError } from "./utils.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ValidationIssue {
+  severity: "error" | "warning";
+  /** Resource the issue is about, e.g. `Worker "api"` */
+  resource: string;
+  message: string;
+  /** Where the resource is declared */
+  location?: SourceLocation;
+}
+
+export interface ValidateOptions {
+  /** Workers that will actually run (dev can be limited to a subset) */
+  workers?: string[];
+  /** Also check what only `lumier dev` needs, such as a free port for each SSR site's dev server */
+  dev?: boolean;
+}
+
+/** Cloudflare's maximum Vectorize index dimensions */
+export const VECTORIZE_MAX_DIMENSIONS = 1536;
+
+type Collection = Exclude<keyof ResourceRegistry, "app" | "outputs">;
+
+const COLLECTION_LABELS: Record<Collection, string> = {
+  workers: "Worker",
+  staticSites: "StaticSite",
+  buckets: "Bucket",
+  kvs: "KV",
+  d1s: "D1",
+  queues: "Queue",
+  vectorizes: "Vectorize",
+  durableObjects: "DurableObject",
+  crons: "Cron",
+  hyperdrives: "Hyperdrive",
+  analyticsEngines: "AnalyticsEngine",
+};
+
+/** Registry collection holding each linkable resource type */
+const LINKABLE_COLLECTIONS: Record<string, Collection> = {
+  worker: "workers",
+  bucket: "buckets",
+  kv: "kvs",
+  d1: "d1s",
+  queue: "queues",
+  vectorize: "vectorizes",
+  durable_object: "durableObjects",
+  hyperdrive: "hyperdrives",
+  analytics_engine: "analyticsEngines",
+};
+
+// ============================================================================
+// Cron Expressions
+// ============================================================================
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  /** Cloudflare extensions allowed in this field (L, W, #) */
+  special?: RegExp;
+}
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+const DAY_OF_MONTH_SPECIAL_REGEX = /^(L|LW|([1-9]|[12]\d|3[01])W)$/;
+const DAY_OF_WEEK_SPECIAL_REGEX = /^([0-7]|SUN|MON|TUE|WED|THU|FRI|SAT)(L|#[1-5])$|^L$/;
+const CRON_STEP_REGEX = /^(.+)\/(\d+)$/;
+const CRON_WHITESPACE_REGEX = /\s+/;
+const DIGITS_REGEX = /^\d+$/;
+
+const CRON_FIELDS: CronField[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31, special: DAY_OF_MONTH_SPECIAL_REGEX },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES },
+  { name: "day of week", min: 0, max: 7, names: DAY_NAMES, special: DAY_OF_WEEK_SPECIAL_REGEX },
+];
+
+function parseCronValue(value: string, field: CronField): number | undefined {
+  if (DIGITS_REGEX.test(value)) return Number(value);
+
+  const index = field.names?.indexOf(value.toUpperCase()) ?? -1;
+  if (index === -1) return undefined;
+  // Months are 1-based, days of week 0-based (SUN = 0)
+  return field.names === MONTH_NAMES ? index + 1 : index;
+}
+
+function cronPartError(part: string, field: CronField): string | undefined {
+  if (field.special?.test(part.toUpperCase())) return undefined;
+
+  const stepMatch = part.match(CRON_STEP_REGEX);
+  const range = stepMatch ? stepMatch[1]! : part;
+  if (stepMatch && Number(stepMatch[2]) === 0) {
+    return `step in "${part}" must be greater than 0`;
+  }
+  if (range === "*") return undefined;
+
+  const bounds = range.split("-");
+  if (bounds.length > 2) return `"${part}" is not a valid ${field.name}`;
+
+  const values = bounds.map((bound) => parseCronValue(bound, field));
+  for (const [index, value] of values.entries()) {
+    if (value === undefined || value < field.min || value > field.max) {
+      return `${field.name} "${bounds[index]}" is out of range (${field.min}-${field.max})`;
+    }
+  }
+  if (values.length === 2 && values[0]! > values[1]!) {
+    return `range "${range}" is reversed`;
+  }
+  return undefined;
+}
+
+/**
+ * Check a cron expression against the syntax Cloudflare cron triggers accept
+ *
+ * @returns a description of the first problem, or undefined if it is valid
+ */
+export function cronExpressionError(expression: string): string | undefined {
+  const fields = expression.trim().split(CRON_WHITESPACE_REGEX);
+  if (fields.length !== CRON_FIELDS.length) {
+    return `expected ${CRON_FIELDS.length} fields (minute hour day-of-month month day-of-week), got ${fields.length}`;
+  }
+
+  for (const [index, value] of fields.entries()) {
+    const field = CRON_FIELDS[index]!;
+    for (const part of value.split(",")) {
+      const error = part ? cronPartError(part, field) : `empty value in ${field.name}`;
+      if (error) return error;
+    }
+  }
+  return undefined;
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+type Report = (issue: Omit<ValidationIssue, "severity"> & { severity?: ValidationIssue["severity"] }) => void;
+
+function checkDuplicates(config: ResourceRegistry, report: Report): void {
+  for (const [collection, label] of Object.entries(COLLECTION_LABELS) as Array<[Collection, string]>) {
+    const seen = new Set<string>();
+    for (const { name, location } of config[collection]) {
+      if (seen.has(name)) {
+        report({ resource: `${label} "${name}"`, message: "is declared more than once", location });
+      }
+      seen.add(name);
+    }
+  }
+
+  // Static sites deploy as workers, so the two share a namespace
+  const workerNames = new Set(config.workers.map((w) => w.name));
+  for (const { name, location } of config.staticSites) {
+    if (workerNames.has(name)) {
+      report({ resource: `StaticSite "${name}"`, message: `has the same name as Worker "${name}"`, location });
+    }
+  }
+}
+
+function isRegistered(config: ResourceRegistry, collection: Collection, name: string): boolean {
+  return config[collection].some((resource) => resource.name === name);
+}
+
+function checkWorkerReferences(config: ResourceRegistry, options: ValidateOptions, report: Report): void {
+  const running = options.workers && new Set(options.workers);
+
+  function checkWorker(resource: string, location: SourceLocation | undefined, workerName: string, role: string) {
+    if (!isRegistered(config, "workers", workerName)) {
+      report({ resource, message: `${role} Worker "${workerName}" is not registered`, location });
+    } else if (running && !running.has(workerName)) {
+      report({ resource, message: `${role} Worker "${workerName}" is not running`, location, severity: "warning" });
+    }
+  }
+
+  for (const { name, options: queueOpts, location } of config.queues) {
+    if (queueOpts?.consumer) {
+      checkWorker(`Queue "${name}"`, location, queueOpts.consumer.worker.name, "consumer");
+    }
+  }
+  for (const { name, options: cronOpts, location } of config.crons) {
+    checkWorker(`Cron "${name}"`, location, cronOpts.worker.name, "target");
+  }
+  for (const { name, options: doOpts, location } of config.durableObjects) {
+    checkWorker(`DurableObject "${name}"`, location, doOpts.worker.name, "host");
+  }
+}
+
+function checkResourceReferences(config: ResourceRegistry, report: Report): void {
+  for (const { name, options: queueOpts, location } of config.queues) {
+    const deadLetter = queueOpts?.deadLetterQueue;
+    if (
+      typeof deadLetter === "object" &&
+      !deadLetter._ref.existing &&
+      !isRegistered(config, "queues", deadLetter.name)
+    ) {
+      report({
+        resource: `Queue "${name}"`,
+        message: `dead letter Queue "${deadLetter.name}" is not registered`,
+        location,
+      });
+    }
+  }
+
+  for (const { name, options: workerOpts, location } of config.workers) {
+    for (const [key, value] of Object.entries(workerOpts.bindings ?? {})) {
+      if (!isLinkableResource(value) || (value._ref as { existing?: boolean }).existing) continue;
+
+      const collection = LINKABLE_COLLECTIONS[value.type];
+      if (collection && !isRegistered(config, collection, value.name)) {
+        report({
+          resource: `Worker "${name}"`,
+          message: `binding ${key} references ${COLLECTION_LABELS[collection]} "${value.name}" which is not registered`,
+          location,
+        });
+      }
+    }
+  }
+}
+
+/** Type a binding ends up with in the generated Env; strings can be merged into a union */
+function bindingCategory(value: BindingValue): string {
+  if (typeof value === "string" || isSecret(value)) return "string";
+  if (isLinkableResource(value)) return value.type === "worker" ? "service" : value.type;
+  if (value.type === "plain_text" || value.type === "secret_text" || value.type === "json") return "string";
+  return value.type;
+}
+
+function checkBindingConflicts(config: ResourceRegistry, report: Report): void {
+  const firstUse = new Map<string, { worker: string; category: string }>();
+
+  for (const { name, options: workerOpts, location } of config.workers) {
+    for (const [key, value] of Object.entries(workerOpts.bindings ?? {})) {
+      const category = bindingCategory(value);
+      const first = firstUse.get(key);
+
+      if (!first) {
+        firstUse.set(key, { worker: name, category });
+      } else if (first.category !== category) {
+        report({
+          resource: `Worker "${name}"`,
+          message: `binding ${key} is a ${category} binding, but Worker "${first.worker}" binds ${key} as ${first.category}`,
+          location,
+        });
+      }
+    }
+  }
+}
+
+function checkOptions(config: ResourceRegistry, report: Report): void {
+  for (const { name, options, location } of config.crons) {
+    const error = cronExpressionError(options.schedule);
+    if (error) {
+      report({ resource: `Cron "${name}"`, message: `invalid schedule "${options.schedule}": ${error}`, location });
+    }
+  }
+
+  for (const { name, options, location } of config.workers) {
+    const assetsBinding = options.assets && (options.assets.binding ?? DEFAULT_ASSETS_BINDING);
+    if (assetsBinding && options.bindings?.[assetsBinding] !== undefined) {
+      report({
+        resource: `Worker "${name}"`,
+        message: `binding ${assetsBinding} is also the binding of its assets; set assets.binding to another name`,
+        location,
+      });
+    }
+  }
+
+  for (const { name, options, location } of config.vectorizes) {
+    const { dimensions } = options;
+    if (!Number.isInteger(dimensions) || dimensions < 1 || dimensions > VECTORIZE_MAX_DIMENSIONS) {
+      report({
+        resource: `Vectorize "${name}"`,
+        message: `dimensions must be an integer between 1 and ${VECTORIZE_MAX_DIMENSIONS}, got ${dimensions}`,
+        location,
+      });
+    }
+  }
+}
+
+/**
+ * Every migration must do something, and tags are unique per host worker,
+ * as Cloudflare tracks them per script
+ */
+function checkDurableObjectMigrations(config: ResourceRegistry, report: Report): void {
+  const tagsByWorker = new Map<string, Map<string, string>>();
+
+  for (const { name, options, location } of config.durableObjects) {
+    const resource = `DurableObject "${name}"`;
+    const tags = tagsByWorker.get(options.worker.name) ?? new Map<string, string>();
+    tagsByWorker.set(options.worker.name, tags);
+
+    for (const migration of declaredMigrations(options)) {
+      const { newClass, renamedFrom, deletedClass, transferredFrom } = migration;
+      if (!(migration.tag && (newClass || renamedFrom || deletedClass || transferredFrom))) {
+        report({
+          resource,
+          message: `migration "${migration.tag}" needs a tag and one of newClass, renamedFrom, deletedClass or transferredFrom`,
+          location,
+        });
+      }
+
+      const owner = tags.get(migration.tag);
+      if (owner) {
+        report({
+          resource,
+          message: `migration tag "${migration.tag}" is already used by ${owner} on Worker "${options.worker.name}"`,
+          location,
+        });
+      }
+      tags.set(migration.tag, resource);
+    }
+  }
+}
+
+/**
+ * `lumier dev` runs every SSR site's framework dev server at once, so each
+ * needs a port of its own
+ */
+function checkDevServerPorts(config: ResourceRegistry, report: Report): void {
+  const ports = new Map<number, string>();
+
+  for (const { name, location, site } of config.workers) {
+    if (!site) continue;
+
+    const resource = `${site.framework} "${name}"`;
+    const owner = ports.get(site.devPort);
+    if (owner) {
+      report({
+        resource,
+        message: `runs its dev server on port ${site.devPort}, as does ${owner}; set dev.port to another port`,
+        location,
+      });
+    }
+    ports.set(site.devPort, resource);
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Collect every problem in the registry
+ */
+export function validateRegistry(config: ResourceRegistry, options: ValidateOptions = {}): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const report: Report = ({ severity = "error", ...issue }) => {
+    issues.push({ severity, ...issue });
+  };
+
+  checkDuplicates(config, report);
+  checkWorkerReferences(config, options, report);
+  checkResourceReferences(config, report);
+  checkBindingConflicts(config, report);
+  checkOptions(config, report);
+  checkDurableObjectMigrations(config, report);
+  if (options.dev) checkDevServerPorts(config, report);
+
+  return issues;
+}
+
+function formatIssue(issue: ValidationIssue): string {
+  const location = issue.location ? formatLocation(issue.location) : CONFIG_FILENAME;
+  return `  ${colors.dim}${location}${colors.reset}  ${issue.resource} ${issue.message}`;
+}
+
+/**
+ * Validate the registry, printing warnings and throwing if there are errors
+ */
+export function assertValidRegistry(config: ResourceRegistry, options: ValidateOptions = {}): void {
+  const issues = validateRegistry(config, options);
+  const errors = issues.filter((issue) => issue.severity === "error");
+  const warnings = issues.filter((issue) => issue.severity === "warning");
+
+  for (const warning of warnings) {
+    console.warn(`${colors.yellow}Warning:${colors.reset}${formatIssue(warning)}`);
+  }
+
+  if (errors.length > 0) {
+    throw new LumierError(
+      `Invalid configuration (${errors.length} ${errors.length === 1 ? "problem" : "problems"}):\n${errors.map(formatIssue).join("\n")}`,
+      "INVALID_CONFIG"
+    );
+  }
+}
@@ -50,6 +50,11 @@ import type {
   QueueOptions,
   QueueOutput,
   ResourceRegistry,
+  SecretOutput,
+  SourceLocation,
+  SSRFramework,
+  SSRSite,
+  SSRSiteOptions,
   StaticSiteOptions,
   StaticSiteOutput,
   VectorizeOptions,
@@ -72,14 +77,58 @@ export const ResourceNameSchema = z
     "Resource name must start with a letter and contain only alphanumeric characters and hyphens"
   );
 
-function validateName(name: string, type: string): void {
+function validateName(name: string, type: string, location?: SourceLocation): void {
   const result = ResourceNameSchema.safeParse(name);
   if (!result.success) {
     const issue = result.error.issues[0];
-    throw new Error(`${type} "${name}": ${issue?.message ?? "Invalid name"}`);
+    const at = location ? ` (${formatLocation(location)})` : "";
+    throw new Error(`${type} "${name}": ${issue?.message ?? "Invalid name"}${at}`);
   }
 }
 
+// ============================================================================
+// Source Locations
+// ============================================================================
+
+/** Matches the file:line[:column] part of a V8/JSC stack frame */
+const STACK_FRAME_REGEX = /\(?([^\s()]+?):(\d+)(?::(\d+))?\)?$/;
+const FILE_URL_PREFIX_REGEX = /^file:\/\//;
+const QUERY_SUFFIX_REGEX = /\?.*$/;
+
+function normalizeFrameFile(file: string): string {
+  return decodeURIComponent(file.replace(FILE_URL_PREFIX_REGEX, "")).replace(QUERY_SUFFIX_REGEX, "");
+}
+
+const SDK_FILE = normalizeFrameFile(import.meta.url);
+
+/**
+ * Find the call site of a resource function: the first stack frame outside the SDK
+ */
+function captureLocation(): SourceLocation | undefined {
+  const frames = new Error("location").stack?.split("\n").slice(1) ?? [];
+
+  for (const frame of frames) {
+    const match = frame.trim().match(STACK_FRAME_REGEX);
+    if (!match) continue;
+
+    const file = normalizeFrameFile(match[1]!);
+    if (file === SDK_FILE || file.startsWith("node:") || file === "native") continue;
+
+    return match[3] ? { file, line: Number(match[2]), column: Number(match[3]) } : { file, line: Number(match[2]) };
+  }
+  return undefined;
+}
+
+/**
+ * Format a source location as `file:line:column`, relative to the working directory
+ * @internal This is for CLI use only - do not use in user code
+ */
+export function formatLocation(location: SourceLocation): string {
+  const cwd = typeof process === "undefined" ? "" : `${process.cwd()}/`;
+  const file = cwd && location.file.startsWith(cwd) ? location.file.slice(cwd.length) : location.file;
+  return location.column ? `${file}:${location.line}:${location.column}` : `${file}:${location.line}`;
+}
+
 // ============================================================================
 // Internal Registry (uses globalThis to share across module instances)
 // ============================================================================
@@ -131,6 +180,52 @@ export function clearRegistry(): void {
   registry.hyperdrives = [];
   registry.analyticsEngines = [];
   registry.outputs = {};
+
+  const state = getRegistryState();
+  state.sealed = false;
+  state.late = [];
+}
+
+// ============================================================================
+// Registry Sealing (detects resources created after run() resolved)
+// ============================================================================
+
+const REGISTRY_STATE_KEY = "__lumier_registry_state__";
+
+interface RegistryState {
+  sealed: boolean;
+  late: string[];
+}
+
+function getRegistryState(): RegistryState {
+  const global = globalThis as Record<string, unknown>;
+  if (!global[REGISTRY_STATE_KEY]) {
+    global[REGISTRY_STATE_KEY] = { sealed: false, late: [] } satisfies RegistryState;
+  }
+  return global[REGISTRY_STATE_KEY] as RegistryState;
+}
+
+function trackRegistration(name: string, type: string, location?: SourceLocation): void {
+  const state = getRegistryState();
+  if (state.sealed) {
+    state.late.push(location ? `${type} "${name}" (${formatLocation(location)})` : `${type} "${name}"`);
+  }
+}
+
+/**
+ * Mark the registry as complete once run() has resolved
+ * @internal This is for CLI use only - do not use in user code
+ */
+export function sealRegistry(): void {
+  getRegistryState().sealed = true;
+}
+
+/**
+ * Resources registered after the registry was sealed (e.g. from a stray setTimeout)
+ * @internal This is for CLI use only - do not use in user code
+ */
+export function getLateRegistrations(): string[] {
+  return [...getRegistryState().late];
 }
 
 /**
@@ -158,9 +253,20 @@ export function getRegistry(): ResourceRegistry {
  * ```
  */
 export function Worker(name: string, options: WorkerOptions): WorkerOutput {
-  validateName(name, "Worker");
+  const location = captureLocation();
+  validateName(name, "Worker", location);
+  trackRegistration(name, "Worker", location);
+  return registerWorker(name, options, location);
+}
+
+function registerWorker(
+  name: string,
+  options: WorkerOptions,
+  location: SourceLocation | undefined,
+  site?: SSRSite
+): WorkerOutput {
   const registry = getRegistryInternal();
-  registry.workers.push({ name, options });
+  registry.workers.push(site ? { name, options, location, site } : { name, options, location });
 
   // Script name includes stage for workers.dev URL
   const scriptName = registry.app.stage
@@ -184,8 +290,10 @@ export function Worker(name: string, options: WorkerOptions): WorkerOutput {
  * ```
  */
 export function Bucket(name: string, options?: BucketOptions): BucketOutput {
-  validateName(name, "Bucket");
-  getRegistryInternal().buckets.push({ name, options });
+  const location = captureLocation();
+  validateName(name, "Bucket", location);
+  trackRegistration(name, "Bucket", location);
+  getRegistryInternal().buckets.push({ name, options, location });
 
   return {
     type: "bucket",
@@ -203,8 +311,10 @@ export function Bucket(name: string, options?: BucketOptions): BucketOutput {
  * ```
  */
 export function KV(name: string, options?: KVOptions): KVOutput {
-  validateName(name, "KV");
-  getRegistryInternal().kvs.push({ name, options });
+  const location = captureLocation();
+  validateName(name, "KV", location);
+  trackRegistration(name, "KV", location);
+  getRegistryInternal().kvs.push({ name, options, location });
 
   return {
     type: "kv",
@@ -223,8 +333,10 @@ export function KV(name: string, options?: KVOptions): KVOutput {
  * ```
  */
 export function D1(name: string, options?: D1Options): D1Output {
-  validateName(name, "D1");
-  getRegistryInternal().d1s.push({ name, options });
+  const location = captureLocation();
+  validateName(name, "D1", location);
+  trackRegistration(name, "D1", location);
+  getRegistryInternal().d1s.push({ name, options, location });
 
   return {
     type: "d1",
@@ -245,8 +357,10 @@ export function D1(name: string, options?: D1Options): D1Output {
  * ```
  */
 export function Queue(name: string, options?: QueueOptions): QueueOutput {
-  validateName(name, "Queue");
-  getRegistryInternal().queues.push({ name, options });
+  const location = captureLocation();
+  validateName(name, "Queue", location);
+  trackRegistration(name, "Queue", location);
+  getRegistryInternal().queues.push({ name, options, location });
 
   return {
     type: "queue",
@@ -267,8 +381,10 @@ export function Queue(name: string, options?: QueueOptions): QueueOutput {
  * ```
  */
 export function Vectorize(name: string, options: VectorizeOptions): VectorizeOutput {
-  validateName(name, "Vectorize");
-  getRegistryInternal().vectorizes.push({ name, options });
+  const location = captureLocation();
+  validateName(name, "Vectorize", location);
+  trackRegistration(name, "Vectorize", location);
+  getRegistryInternal().vectorizes.push({ name, options, location });
 
   return {
     type: "vectorize",
@@ -289,8 +405,10 @@ export function Vectorize(name: string, options: VectorizeOptions): VectorizeOut
  * ```
  */
 export function DurableObject(name: string, options: DurableObjectOptions): DurableObjectOutput {
-  validateName(name, "DurableObject");
-  getRegistryInternal().durableObjects.push({ name, options });
+  const location = captureLocation();
+  validateName(name, "DurableObject", location);
+  trackRegistration(name, "DurableObject", location);
+  getRegistryInternal().durableObjects.push({ name, options, location });
 
   return {
     type: "durable_object",
@@ -312,8 +430,10 @@ export function DurableObject(name: string, options: DurableObjectOptions): Dura
  * ```
  */
 export function Cron(name: string, options: CronOptions): CronOutput {
-  validateName(name, "Cron");
-  getRegistryInternal().crons.push({ name, options });
+  const location = captureLocation();
+  validateName(name, "Cron", location);
+  trackRegistration(name, "Cron", location);
+  getRegistryInternal().crons.push({ name, options, location });
 
   return {
     type: "cron",
@@ -334,9 +454,11 @@ export function Cron(name: string, options: CronOptions): CronOutput {
  * ```
  */
 export function StaticSite(name: string, options: StaticSiteOptions): StaticSiteOutput {
-  validateName(name, "StaticSite");
+  const location = captureLocation();
+  validateName(name, "StaticSite", location);
+  trackRegistration(name, "StaticSite", location);
   const registry = getRegistryInternal();
-  registry.staticSites.push({ name, options });
+  registry.staticSites.push({ name, options, location });
 
   // Build site name with stage for workers.dev URL
   const siteName = registry.app.stage
@@ -350,6 +472,165 @@ export function StaticSite(name: string, options: StaticSiteOptions): StaticSite
   };
 }
 
+// ============================================================================
+// SSR Sites
+// ============================================================================
+
+interface FrameworkDefaults {
+  /** Worker entry written by the framework's Cloudflare adapter, relative to the app */
+  entry: string;
+  /** Static assets written alongside the entry, relative to the app */
+  assets: string;
+  buildCommand: string;
+  /** Dev server command, without its port */
+  devCommand: string;
+  devPort: number;
+}
+
+const FRAMEWORK_DEFAULTS: Record<SSRFramework, FrameworkDefaults> = {
+  Astro: {
+    entry: "dist/_worker.js/index.js",
+    assets: "dist",
+    buildCommand: "npx astro build",
+    devCommand: "npx astro dev",
+    devPort: 4321,
+  },
+  ReactRouter: {
+    entry: "build/server/index.js",
+    assets: "build/client",
+    buildCommand: "npx react-router build",
+    devCommand: "npx react-router dev",
+    devPort: 5173,
+  },
+  SvelteKit: {
+    entry: ".svelte-kit/cloudflare/_worker.js",
+    assets: ".svelte-kit/cloudflare",
+    buildCommand: "npx vite build",
+    devCommand: "npx vite dev",
+    devPort: 5173,
+  },
+  Nextjs: {
+    entry: ".open-next/worker.js",
+    assets: ".open-next/assets",
+    buildCommand: "npx opennextjs-cloudflare build",
+    devCommand: "npx next dev",
+    devPort: 3000,
+  },
+};
+
+const TRAILING_SLASHES_REGEX = /\/+$/;
+
+/** Path of a file inside an app, both relative to the project root */
+function appPath(dir: string, file: string): string {
+  const base = dir.replace(TRAILING_SLASHES_REGEX, "");
+  return base === "" || base === "." ? file : `${base}/${file}`;
+}
+
+/**
+ * Register the Worker of a framework app, deployed from the entry and assets
+ * its Cloudflare adapter builds
+ */
+function registerSSRSite(framework: SSRFramework, name: string, options: SSRSiteOptions): WorkerOutput {
+  const location = captureLocation();
+  validateName(name, framework, location);
+  trackRegistration(name, framework, location);
+
+  const defaults = FRAMEWORK_DEFAULTS[framework];
+  const { path = ".", buildCommand = defaults.buildCommand, dev, ...workerOpts } = options;
+  const devPort = dev?.port ?? defaults.devPort;
+
+  return registerWorker(
+    name,
+    { ...workerOpts, entry: appPath(path, defaults.entry), assets: { directory: appPath(path, defaults.assets) } },
+    location,
+    { framework, path, buildCommand, devCommand: dev?.command ?? `${defaults.devCommand} --port ${devPort}`, devPort }
+  );
+}
+
+/**
+ * Create an Astro site, built with the @astrojs/cloudflare adapter
+ *
+ * @example
+ * ```ts
+ * const web = Astro('web', {
+ *   path: 'packages/web',
+ *   url: true,
+ *   bindings: { DB: db },
+ * });
+ * ```
+ */
+export function Astro(name: string, options: SSRSiteOptions = {}): WorkerOutput {
+  return registerSSRSite("Astro", name, options);
+}
+
+/**
+ * Create a React Router (or Remix) site, built with the Cloudflare Vite plugin
+ *
+ * @example
+ * ```ts
+ * const web = ReactRouter('web', { path: 'packages/web', url: true });
+ * ```
+ */
+export function ReactRouter(name: string, options: SSRSiteOptions = {}): WorkerOutput {
+  return registerSSRSite("ReactRouter", name, options);
+}
+
+/**
+ * Create a SvelteKit site, built with @sveltejs/adapter-cloudflare
+ *
+ * @example
+ * ```ts
+ * const web = SvelteKit('web', { path: 'packages/web', url: true });
+ * ```
+ */
+export function SvelteKit(name: string, options: SSRSiteOptions = {}): WorkerOutput {
+  return registerSSRSite("SvelteKit", name, options);
+}
+
+/**
+ * Create a Next.js site, built with OpenNext (@opennextjs/cloudflare)
+ *
+ * @example
+ * ```ts
+ * const web = Nextjs('web', { path: 'packages/web', url: true });
+ * ```
+ */
+export function Nextjs(name: string, options: SSRSiteOptions = {}): WorkerOutput {
+  return registerSSRSite("Nextjs", name, options);
+}
+
+/**
+ * Environment variables `lumier dev` sets for the dev server of an SSR site
+ * @internal This is for CLI use only - do not use in user code
+ */
+export const PLATFORM_PROXY_ENV = {
+  configPath: "LUMIER_PLATFORM_PROXY_CONFIG",
+  persistPath: "LUMIER_PLATFORM_PROXY_PERSIST",
+} as const;
+
+/**
+ * Options for a framework adapter's platform proxy (`getPlatformProxy()`),
+ * which give an SSR site's dev server the bindings and local data of
+ * `lumier dev`. Empty outside `lumier dev`.
+ *
+ * @example
+ * ```ts
+ * // astro.config.mjs
+ * import cloudflare from '@astrojs/cloudflare';
+ * import { platformProxy } from 'lumier';
+ *
+ * export default defineConfig({
+ *   adapter: cloudflare({ platformProxy: { enabled: true, ...platformProxy() } }),
+ * });
+ * ```
+ */
+export function platformProxy(): { configPath?: string; persist?: { path: string } } {
+  const env = typeof process === "undefined" ? {} : process.env;
+  const configPath = env[PLATFORM_PROXY_ENV.configPath];
+  const persistPath = env[PLATFORM_PROXY_ENV.persistPath];
+  return configPath && persistPath ? { configPath, persist: { path: persistPath } } : {};
+}
+
 /**
  * Create a Hyperdrive connection pool
  *
@@ -364,8 +645,10 @@ export function StaticSite(name: string, options: StaticSiteOptions): StaticSite
  * ```
  */
 export function Hyperdrive(name: string, options?: HyperdriveOptions): HyperdriveOutput {
-  validateName(name, "Hyperdrive");
-  getRegistryInternal().hyperdrives.push({ name, options });
+  const location = captureLocation();
+  validateName(name, "Hyperdrive", location);
+  trackRegistration(name, "Hyperdrive", location);
+  getRegistryInternal().hyperdrives.push({ name, options, location });
 
   return {
     type: "hyperdrive",
@@ -383,8 +666,10 @@ export function Hyperdrive(name: string, options?: HyperdriveOptions): Hyperdriv
  * ```
  */
 export function AnalyticsEngine(name: string, options?: AnalyticsEngineOptions): AnalyticsEngineOutput {
-  validateName(name, "AnalyticsEngine");
-  getRegistryInternal().analyticsEngines.push({ name, options });
+  const location = captureLocation();
+  validateName(name, "AnalyticsEngine", location);
+  trackRegistration(name, "AnalyticsEngine", location);
+  getRegistryInternal().analyticsEngines.push({ name, options, location });
 
   return {
     type: "analytics_engine",
@@ -397,16 +682,6 @@ export function AnalyticsEngine(name: string, options?: AnalyticsEngineOptions):
 // Secret Function
 // ============================================================================
 
-/**
- * Secret output - represents a secret binding value
- */
-export interface SecretOutput {
-  readonly type: "secret";
-  readonly name: string;
-  readonly placeholder?: string;
-  readonly _ref: { isSecret: true };
-}
-
 /**
  * Create a secret binding for Workers
  *
@@ -556,7 +831,7 @@ export interface ExistingHyperdriveOptions {
  * ```
  */
 D1.existing = (name: string, options: ExistingD1Options): D1Output => {
-  validateName(name, "D1.existing");
+  validateName(name, "D1.existing", captureLocation());
 
   return {
     type: "d1",
@@ -577,7 +852,7 @@ D1.existing = (name: string, options: ExistingD1Options): D1Output => {
  * ```
  */
 KV.existing = (name: string, options: ExistingKVOptions): KVOutput => {
-  validateName(name, "KV.existing");
+  validateName(name, "KV.existing", captureLocation());
 
   return {
     type: "kv",
@@ -598,7 +873,7 @@ KV.existing = (name: string, options: ExistingKVOptions): KVOutput => {
  * ```
  */
 Bucket.existing = (name: string, options: ExistingR2Options): BucketOutput => {
-  validateName(name, "Bucket.existing");
+  validateName(name, "Bucket.existing", captureLocation());
 
   return {
     type: "bucket",
@@ -618,7 +893,7 @@ Bucket.existing = (name: string, options: ExistingR2Options): BucketOutput => {
  * ```
  */
 Queue.existing = (name: string, options: ExistingQueueOptions): QueueOutput => {
-  validateName(name, "Queue.existing");
+  validateName(name, "Queue.existing", captureLocation());
 
   return {
     type: "queue",
@@ -638,7 +913,7 @@ Queue.existing = (name: string, options: ExistingQueueOptions): QueueOutput => {
  * ```
  */
 Vectorize.existing = (name: string, options: ExistingVectorizeOptions): VectorizeOutput => {
-  validateName(name, "Vectorize.existing");
+  validateName(name, "Vectorize.existing", captureLocation());
 
   return {
     type: "vectorize",
@@ -658,7 +933,7 @@ Vectorize.existing = (name: string, options: ExistingVectorizeOptions): Vectoriz
  * ```
  */
 Hyperdrive.existing = (name: string, options: ExistingHyperdriveOptions): HyperdriveOutput => {
-  validateName(name, "Hyperdrive.existing");
+  validateName(name, "Hyperdrive.existing", captureLocation());
 
   return {
     type: "hyperdrive",
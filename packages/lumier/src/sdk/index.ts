@@ -46,25 +46,33 @@ export type {
   ExistingQueueOptions,
   ExistingR2Options,
   ExistingVectorizeOptions,
-  SecretOutput,
 } from "./config.js";
 // Resource functions
 export {
   $config,
   AnalyticsEngine,
+  Astro,
   Bucket,
   binding,
   Cron,
   clearRegistry,
   D1,
   DurableObject,
+  formatLocation,
+  getLateRegistrations,
   getRegistry,
   Hyperdrive,
   KV,
+  Nextjs,
+  PLATFORM_PROXY_ENV,
+  platformProxy,
   Queue,
+  ReactRouter,
   ResourceNameSchema,
   Secret,
   StaticSite,
+  SvelteKit,
+  sealRegistry,
   Vectorize,
   Worker,
 } from "./config.js";
@@ -75,6 +83,7 @@ export type {
   AnalyticsEngineOutput,
   AppConfig,
   AppInput,
+  AssetsOptions,
   BindingValue,
   BucketOptions,
   BucketOutput,
@@ -84,6 +93,7 @@ export type {
   CronOutput,
   D1Options,
   D1Output,
+  D1SeedDatabase,
   DurableObjectMigration,
   DurableObjectOptions,
   DurableObjectOutput,
@@ -98,6 +108,11 @@ export type {
   RemovalPolicy,
   ResourceRegistry,
   RuntimeContext,
+  SecretOutput,
+  SourceLocation,
+  SSRFramework,
+  SSRSite,
+  SSRSiteOptions,
   StaticSiteOptions,
   StaticSiteOutput,
   VectorizeOptions,
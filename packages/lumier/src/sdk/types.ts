@@ -25,11 +25,16 @@ export interface RuntimeContext {
   isProduction: boolean;
   isDev: boolean;
   app: AppConfig;
+  /**
+   * Decrypted secrets for the stage (set with `lumier secret set`).
+   * Read-only; accessing a secret that is not set throws.
+   */
+  secrets: Readonly<Record<string, string>>;
 }
 
 export interface ConfigOptions {
   app: (input?: AppInput) => AppConfig;
-  run: (ctx: RuntimeContext) => Record<string, unknown>;
+  run: (ctx: RuntimeContext) => Record<string, unknown> | Promise<Record<string, unknown>>;
 }
 
 // ============================================================================
@@ -106,6 +111,14 @@ export interface AnalyticsEngineOutput {
   readonly _ref: { dataset: string };
 }
 
+/** Secret output - represents a secret binding value */
+export interface SecretOutput {
+  readonly type: "secret";
+  readonly name: string;
+  readonly placeholder?: string;
+  readonly _ref: { isSecret: true };
+}
+
 /** Resources that can be linked to a Worker */
 export type LinkableResource =
   | WorkerOutput
@@ -151,7 +164,7 @@ export interface ServiceBinding {
 export type ManualBinding = PlainTextBinding | SecretTextBinding | JsonBinding | ServiceBinding;
 
 /** Binding value - can be a resource, manual binding, or simple string */
-export type BindingValue = LinkableResource | ManualBinding | string;
+export type BindingValue = LinkableResource | SecretOutput | ManualBinding | string;
 
 // ============================================================================
 // Build Options
@@ -198,6 +211,24 @@ export interface PlacementOptions {
   mode: "smart" | "off";
 }
 
+/** Worker static assets configuration */
+export interface AssetsOptions {
+  /** Directory of static files, relative to the project root */
+  directory: string;
+
+  /** Binding the worker fetches assets through @default "ASSETS" */
+  binding?: string;
+
+  /** How to handle requests that match no asset @default "none" */
+  notFoundHandling?: "none" | "single-page-application" | "404-page";
+
+  /** How to handle HTML routing @default "auto-trailing-slash" */
+  htmlHandling?: "auto-trailing-slash" | "force-trailing-slash" | "drop-trailing-slash" | "none";
+
+  /** Whether to run the worker before serving assets @default false */
+  runWorkerFirst?: boolean;
+}
+
 /** Worker configuration options */
 export interface WorkerOptions {
   /** Entry point file path */
@@ -231,10 +262,8 @@ export interface WorkerOptions {
   /** Custom domain (must be on Cloudflare) */
   domain?: string;
 
-  /** Static assets directory */
-  assets?: {
-    directory: string;
-  };
+  /** Static assets served with the worker */
+  assets?: AssetsOptions;
 
   /** Build configuration */
   build?: BuildOptions;
@@ -284,6 +313,12 @@ export interface BucketOptions {
   /** Default storage class for objects */
   storageClass?: "Standard" | "InfrequentAccess";
 
+  /**
+   * Directory uploaded to the local bucket in `lumier dev`, relative to the
+   * project root. Object keys are the file paths inside it.
+   */
+  seed?: string;
+
   /** Transform underlying Pulumi resources */
   transform?: {
     bucket?: (args: Record<string, unknown>) => void;
@@ -292,12 +327,24 @@ export interface BucketOptions {
 
 /** KV Namespace configuration */
 export interface KVOptions {
+  /**
+   * JSON file of `{ key, value, metadata?, expiration? }` entries written to
+   * the local namespace in `lumier dev`, relative to the project root
+   */
+  seed?: string;
+
   /** Transform underlying Pulumi resources */
   transform?: {
     namespace?: (args: Record<string, unknown>) => void;
   };
 }
 
+/** Database handle passed to a D1 seed function */
+export interface D1SeedDatabase {
+  /** Run SQL, resolving to the rows of the last statement. Params bind to `?` placeholders */
+  query(sql: string, params?: unknown[]): Promise<Array<Record<string, unknown>>>;
+}
+
 /** D1 location hints */
 export type D1LocationHint = "wnam" | "enam" | "weur" | "eeur" | "apac" | "oc";
 
@@ -309,6 +356,18 @@ export interface D1Options {
   /** Enable read replication */
   readReplication?: boolean;
 
+  /**
+   * Directory of `.sql` migrations, relative to the project root.
+   * Pending files are applied in file name order by `lumier dev` and on deploy.
+   */
+  migrations?: string;
+
+  /**
+   * Data for the local database in `lumier dev`: a `.sql` file relative to
+   * the project root, or a function. Runs after migrations.
+   */
+  seed?: string | ((db: D1SeedDatabase) => Promise<void>);
+
   /** Transform underlying Pulumi resources */
   transform?: {
     database?: (args: Record<string, unknown>) => void;
@@ -446,12 +505,46 @@ export interface StaticSiteOptions {
   buildOutput?: string;
 }
 
+/** Frameworks with an SSR site component, named after it */
+export type SSRFramework = "Astro" | "ReactRouter" | "SvelteKit" | "Nextjs";
+
+/** SSR site configuration: a Worker running a framework's Cloudflare build */
+export interface SSRSiteOptions extends Omit<WorkerOptions, "entry" | "assets"> {
+  /** Directory of the app, relative to the project root @default "." */
+  path?: string;
+
+  /** Command building the app for Cloudflare, run in `path` @default the framework's build, e.g. "npx astro build" */
+  buildCommand?: string;
+
+  /** Framework dev server that `lumier dev` runs in `path` */
+  dev?: {
+    /** Command starting the dev server on `port` @default the framework's, e.g. "npx astro dev --port 4321" */
+    command?: string;
+
+    /** Port the dev server listens on @default the framework's, e.g. 4321 */
+    port?: number;
+  };
+}
+
+/** The framework app behind a Worker created by an SSR site component */
+export interface SSRSite {
+  framework: SSRFramework;
+  /** Directory of the app, relative to the project root */
+  path: string;
+  buildCommand: string;
+  devCommand: string;
+  devPort: number;
+}
+
 // ============================================================================
 // Hyperdrive Options
 // ============================================================================
 
 /** Hyperdrive configuration */
 export interface HyperdriveOptions {
+  /** Origin database connection string (required to deploy) */
+  connectionString?: string;
+
   /** Local connection string for dev server (connects directly, bypasses Hyperdrive) */
   localConnectionString?: string;
 
@@ -483,20 +576,29 @@ export interface AnalyticsEngineOptions {
 // Registry (internal, but exposed for CLI)
 // ============================================================================
 
+/** Where a resource was declared (the resource function's call site) */
+export interface SourceLocation {
+  file: string;
+  line: number;
+  /** Missing when the runtime does not report one */
+  column?: number;
+}
+
 export interface ResourceRegistry {
   app: AppConfig & {
     stage: string;
   };
-  workers: Array<{ name: string; options: WorkerOptions }>;
-  buckets: Array<{ name: string; options?: BucketOptions }>;
-  kvs: Array<{ name: string; options?: KVOptions }>;
-  d1s: Array<{ name: string; options?: D1Options }>;
-  queues: Array<{ name: string; options?: QueueOptions }>;
-  vectorizes: Array<{ name: string; options: VectorizeOptions }>;
-  durableObjects: Array<{ name: string; options: DurableObjectOptions }>;
-  crons: Array<{ name: string; options: CronOptions }>;
-  staticSites: Array<{ name: string; options: StaticSiteOptions }>;
-  hyperdrives: Array<{ name: string; options?: HyperdriveOptions }>;
-  analyticsEngines: Array<{ name: string; options?: AnalyticsEngineOptions }>;
+  /** Workers, including those of SSR sites (with `site`) */
+  workers: Array<{ name: string; options: WorkerOptions; location?: SourceLocation; site?: SSRSite }>;
+  buckets: Array<{ name: string; options?: BucketOptions; location?: SourceLocation }>;
+  kvs: Array<{ name: string; options?: KVOptions; location?: SourceLocation }>;
+  d1s: Array<{ name: string; options?: D1Options; location?: SourceLocation }>;
+  queues: Array<{ name: string; options?: QueueOptions; location?: SourceLocation }>;
+  vectorizes: Array<{ name: string; options: VectorizeOptions; location?: SourceLocation }>;
+  durableObjects: Array<{ name: string; options: DurableObjectOptions; location?: SourceLocation }>;
+  crons: Array<{ name: string; options: CronOptions; location?: SourceLocation }>;
+  staticSites: Array<{ name: string; options: StaticSiteOptions; location?: SourceLocation }>;
+  hyperdrives: Array<{ name: string; options?: HyperdriveOptions; location?: SourceLocation }>;
+  analyticsEngines: Array<{ name: string; options?: AnalyticsEngineOptions; location?: SourceLocation }>;
   outputs: Record<string, unknown>;
 }